@@ -1,10 +1,79 @@
 import { execa, ExecaError } from 'execa';
-import { existsSync, writeFileSync, readFileSync, mkdirSync } from 'fs';
-import { join, resolve, dirname } from 'path';
+import { existsSync, writeFileSync, readFileSync, mkdirSync, mkdtempSync, rmSync, statSync, openSync, closeSync } from 'fs';
+import { basename, join, resolve, dirname, isAbsolute } from 'path';
+import { createInterface } from 'readline';
 import { fileURLToPath } from 'url';
-import chalk from 'chalk';
-import ora from 'ora';
-import { Config } from './Config.js';
+import { Config, type ConfigIssue } from './Config.js';
+import { AIRewindError } from './errors.js';
+import { matchesGlob } from './glob.js';
+import { buildPatch, parseDiff } from './hunks.js';
+import { IGNORE_FILE, parseIgnoreFile, readIgnoreFile } from './ignore.js';
+import { HOOK_EVENTS, HOOK_TOOLS, describeToolUse, mergeHookSettings, type HookEvent, type HookPayload, type HookSettings } from './hooks.js';
+import { LargeFileStore, LARGE_FILE_TRAILER, formatLargeFileTrailer, isBinaryFile, parseLargeFileTrailers } from './LargeFileStore.js';
+import { PatchScanner, maskSecret, redactSecrets, type SecretMatch } from './secrets.js';
+import { Watcher, type WatchOptions } from './Watcher.js';
+import type {
+  BackupDetails,
+  BackupEntry,
+  BackupPruneResult,
+  BackupRemoval,
+  BundleExportResult,
+  BundleImportResult,
+  ChangeKind,
+  CheckpointMetadata,
+  CheckpointOptions,
+  CheckpointRestoreResult,
+  CheckpointResult,
+  ConflictResolution,
+  CommitEntry,
+  CommitFilter,
+  CommitResult,
+  CompactionResult,
+  DiffFormat,
+  DiffOptions,
+  DiffResult,
+  DiffStat,
+  ExperimentAdoptResult,
+  ExperimentComparison,
+  ExperimentEntry,
+  ExperimentList,
+  ExperimentSwitchResult,
+  FileChange,
+  FileRestoreEntry,
+  FileRollbackOptions,
+  FileRollbackResult,
+  ForwardResult,
+  HookInstallResult,
+  HookResult,
+  HunkList,
+  HunkOptions,
+  HunkRollbackResult,
+  IgnoreAddResult,
+  IgnoreCheck,
+  IgnoreList,
+  IgnoreRule,
+  IgnoreUntrackResult,
+  InitResult,
+  InstallResult,
+  LargeFileEntry,
+  MainRepoState,
+  NamedCheckpoint,
+  PromoteOptions,
+  PromoteResult,
+  RestorePoint,
+  RestorePreview,
+  RevertOptions,
+  RevertResult,
+  RollbackOptions,
+  RollbackPlan,
+  RollbackResult,
+  RollbackTarget,
+  SecretFinding,
+  SecretScanResult,
+  StatsResult,
+  StatusEntry,
+  StatusResult
+} from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -15,9 +84,170 @@ export interface TrackerConfig {
   ignoreFile: string;
 }
 
+// Commit trailers and environment variables backing each metadata field
+const METADATA_FIELDS: { key: keyof CheckpointMetadata; trailer: string; env: string }[] = [
+  { key: 'agent', trailer: 'AI-Agent', env: 'AI_REWIND_AGENT' },
+  { key: 'session', trailer: 'AI-Session', env: 'AI_REWIND_SESSION' },
+  { key: 'promptRef', trailer: 'AI-Prompt-Ref', env: 'AI_REWIND_PROMPT_REF' }
+];
+
+// Trailers linking a checkpoint to the state of the project's own git repository
+const MAIN_HEAD_TRAILER = 'Main-Head';
+const MAIN_BRANCH_TRAILER = 'Main-Branch';
+const MAIN_DIRTY_TRAILER = 'Main-Dirty';
+
+// Bundles carry stored large file content and backup pins in a tree behind this ref; it only
+// exists while a bundle is written or read
+const BUNDLE_EXTRAS_REF = 'refs/ai-rewind/bundle-extras';
+
+// Git's well-known empty tree, the diff base before the first checkpoint
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Git options for each diff format
+const DIFF_FORMAT_ARGS: Record<DiffFormat, string[]> = {
+  patch: [],
+  stat: ['--stat'],
+  'name-only': ['--name-only'],
+  'word-diff': ['--word-diff=plain']
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+// Parses "30m", "2h", "1d12h" into milliseconds
+function parseDuration(text: string): number {
+  const normalized = text.replace(/\s+/g, '').toLowerCase();
+  if (!/^(\d+[smhdw])+$/.test(normalized)) {
+    throw new AIRewindError('INVALID_ARGUMENT', `Invalid duration '${text}' (use e.g. 30m, 2h, 1d12h)`);
+  }
+  let total = 0;
+  for (const [, amount, unit] of normalized.matchAll(/(\d+)([smhdw])/g)) {
+    total += parseInt(amount) * DURATION_UNITS[unit];
+  }
+  return total;
+}
+
+// Removes ASCII control characters (including DEL) from text headed for a commit message
+function stripControlCharacters(text: string): string {
+  return [...text].filter(char => char >= ' ' && char !== '\x7f').join('');
+}
+
+// Parses " 3 files changed, 10 insertions(+), 2 deletions(-)"; empty output means no changes
+function parseShortStat(text: string): DiffStat {
+  const count = (pattern: RegExp) => parseInt(text.match(pattern)?.[1] ?? '0');
+  return {
+    filesChanged: count(/(\d+) files? changed/),
+    insertions: count(/(\d+) insertions?\(\+\)/),
+    deletions: count(/(\d+) deletions?\(-\)/)
+  };
+}
+
+// Whether a path falls under a file, directory or glob given to rollbackFiles, with the
+// same meaning as the pathspec toPathspecs builds from it
+function matchesFilePattern(path: string, pattern: string): boolean {
+  const normalized = pattern.replace(/\\/g, '/').replace(/\/$/, '');
+  if (/[*?[]/.test(normalized)) {
+    return matchesGlob(path, `/${normalized}`);
+  }
+  return normalized === '.' || path === normalized || path.startsWith(`${normalized}/`);
+}
+
+function sameLargeFile(a: LargeFileEntry, b: LargeFileEntry): boolean {
+  return a.path === b.path && a.policy === b.policy && a.size === b.size && a.hash === b.hash;
+}
+
+function toSecretFinding(match: SecretMatch, redacted: boolean, commit?: string): SecretFinding {
+  return {
+    rule: match.rule.id,
+    description: match.rule.description,
+    path: match.path,
+    line: match.line,
+    preview: maskSecret(match.value),
+    redacted,
+    ...(commit ? { commit } : {})
+  };
+}
+
+// Reads Main-Head / Main-Branch / Main-Dirty out of %x1d-separated trailers
+function parseMainRepoState(trailers: string): MainRepoState | null {
+  const values = new Map<string, string>();
+  for (const trailer of trailers.split('\x1d')) {
+    const separator = trailer.indexOf(':');
+    if (separator !== -1) {
+      values.set(trailer.slice(0, separator).trim().toLowerCase(), trailer.slice(separator + 1).trim());
+    }
+  }
+  const head = values.get(MAIN_HEAD_TRAILER.toLowerCase());
+  if (!head) {
+    return null;
+  }
+  return {
+    head,
+    branch: values.get(MAIN_BRANCH_TRAILER.toLowerCase()) || null,
+    dirty: values.get(MAIN_DIRTY_TRAILER.toLowerCase()) === 'true'
+  };
+}
+
+// Drops the trailing block of "Key: value" lines from a commit body
+function stripTrailers(body: string): string {
+  const paragraphs = body.trim().split(/\n\s*\n/);
+  const last = paragraphs[paragraphs.length - 1] ?? '';
+  if (last.split('\n').every(line => /^[A-Za-z0-9-]+: /.test(line))) {
+    paragraphs.pop();
+  }
+  return paragraphs.join('\n\n').trim();
+}
+
+// Like format-patch: "Fix login redirect" -> "Fix-login-redirect"
+function patchSlug(subject: string): string {
+  return subject.replace(/[^A-Za-z0-9.]+/g, '-').replace(/^[-.]+|[-.]+$/g, '').slice(0, 52) || 'checkpoint';
+}
+
+// Checkpoint and experiment names become a single ref path component, so they
+// can't collide with or nest inside each other
+function assertRefName(name: string, kind: string): void {
+  if (typeof name !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name) || name.includes('..') || name.endsWith('.lock')) {
+    throw new AIRewindError('INVALID_ARGUMENT', `Invalid ${kind} name '${name}': use letters, digits, '.', '_' and '-'`);
+  }
+}
+
+// backup-2026-10-19T09-10-58-703Z -> 2026-10-19T09:10:58.703Z
+function parseBackupTime(tag: string): string | null {
+  const match = tag.match(/^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/);
+  return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z` : null;
+}
+
+// Validate git arguments to prevent injection
+function assertSafeGitArgs(args: string[]): void {
+  const dangerousPatterns = [';', '&&', '||', '|', '>', '<', '`', '$', '\n', '\r'];
+  for (const arg of args) {
+    if (typeof arg !== 'string') {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Invalid git argument type');
+    }
+    if (dangerousPatterns.some(pattern => arg.includes(pattern))) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Invalid characters in git arguments');
+    }
+  }
+}
+
+interface RawCommit {
+  hash: string;
+  parents: string[];
+  tree: string;
+  author: string;
+  committer: string;
+  message: string;
+}
+
 export class AIRewind {
   private config: TrackerConfig;
   private configManager: Config;
+  private largeFileStore: LargeFileStore;
 
   constructor(workTree: string = process.cwd()) {
     // Validate and sanitize workTree path
@@ -25,13 +255,13 @@ export class AIRewind {
     
     // Prevent path traversal attacks
     if (resolvedPath.includes('..') || !existsSync(resolvedPath)) {
-      throw new Error('Invalid working directory specified');
+      throw new AIRewindError('INVALID_WORK_TREE', 'Invalid working directory specified');
     }
     
     // Ensure we're not in a system directory
     const systemDirs = ['/etc', '/usr', '/bin', '/sbin', '/boot', 'C:\\Windows', 'C:\\Program Files'];
     if (systemDirs.some(dir => resolvedPath.startsWith(dir))) {
-      throw new Error('Cannot initialize tracking in system directory');
+      throw new AIRewindError('INVALID_WORK_TREE', 'Cannot initialize tracking in system directory');
     }
     
     this.config = {
@@ -39,20 +269,24 @@ export class AIRewind {
       workTree: resolvedPath,
       ignoreFile: join(resolvedPath, '.gitignore')
     };
-    this.configManager = new Config(this.config.workTree);
+    // Callers decide how to report configIssues (the CLI prints them before each command)
+    this.configManager = new Config(this.config.workTree, { quiet: true });
+    this.largeFileStore = new LargeFileStore(this.config.gitDir, this.config.workTree);
   }
 
-  private async execGit(args: string[]): Promise<string> {
-    // Validate git arguments to prevent injection
-    const dangerousPatterns = [';', '&&', '||', '|', '>', '<', '`', '$', '\n', '\r'];
-    for (const arg of args) {
-      if (typeof arg !== 'string') {
-        throw new Error('Invalid git argument type');
-      }
-      if (dangerousPatterns.some(pattern => arg.includes(pattern))) {
-        throw new Error('Invalid characters in git arguments');
-      }
-    }
+  // Problems found in the config files, AI_REWIND_* variables or overrides;
+  // the affected settings fall back to the layers below
+  get configIssues(): ConfigIssue[] {
+    return this.configManager.issues;
+  }
+
+  // key=value settings that take precedence over every config file and variable
+  setConfigOverrides(overrides: string[]): void {
+    this.configManager.setOverrides(overrides);
+  }
+
+  private async execGit(args: string[], options: { input?: string; env?: Record<string, string> } = {}): Promise<string> {
+    assertSafeGitArgs(args);
     
     try {
       const { stdout } = await execa('git', [
@@ -63,7 +297,12 @@ export class AIRewind {
         // Additional security: don't allow shell interpretation
         shell: false,
         // Limit stdout size to prevent memory exhaustion
-        maxBuffer: 10 * 1024 * 1024 // 10MB
+        maxBuffer: 10 * 1024 * 1024, // 10MB
+        // Data streamed to git (e.g. fast-import) is never parsed as arguments
+        input: options.input,
+        env: options.env,
+        // Commands like apply resolve paths from the current directory, not --work-tree
+        cwd: this.config.workTree
       });
       return stdout;
     } catch (error) {
@@ -72,20 +311,45 @@ export class AIRewind {
       
       // Provide better error messages for common issues
       if (execaError.stderr?.includes('not a git repository')) {
-        throw new Error('AI tracking repository not initialized. Run "ai-rewind init" first.');
+        throw new AIRewindError('NOT_INITIALIZED', 'AI tracking repository not initialized. Run "ai-rewind init" first.');
       }
       if (execaError.stderr?.includes('Permission denied')) {
-        throw new Error('Permission denied. Check file permissions in your project directory.');
+        throw new AIRewindError('PERMISSION_DENIED', 'Permission denied. Check file permissions in your project directory.');
       }
       if (execaError.stderr?.includes('index.lock')) {
-        throw new Error('Another git process is running. Please wait and try again.');
+        throw new AIRewindError('REPOSITORY_LOCKED', 'Another git process is running. Please wait and try again.');
       }
       if (command === 'commit' && execaError.stderr?.includes('nothing to commit')) {
-        throw new Error('No changes to commit. All files are up to date.');
+        throw new AIRewindError('NOTHING_TO_COMMIT', 'No changes to commit. All files are up to date.');
       }
       
-      // Default error message
-      throw new Error(`Git operation failed: ${execaError.stderr || execaError.message}`);
+      // Default error message; the short message leaves out whatever git printed to stdout
+      throw new AIRewindError('GIT_ERROR', `Git operation failed: ${execaError.stderr || execaError.shortMessage}`);
+    }
+  }
+
+  // Like execGit, but hands stdout over line by line instead of buffering it, for output
+  // as large as the snapshot itself
+  private async streamGit(args: string[], onLine: (line: string) => void): Promise<void> {
+    assertSafeGitArgs(args);
+    const subprocess = execa('git', [`--git-dir=${this.config.gitDir}`, `--work-tree=${this.config.workTree}`, ...args], {
+      shell: false,
+      buffer: false,
+      cwd: this.config.workTree
+    });
+    let stderr = '';
+    subprocess.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-4096);
+    });
+    if (subprocess.stdout) {
+      for await (const line of createInterface({ input: subprocess.stdout, crlfDelay: Infinity })) {
+        onLine(line);
+      }
+    }
+    try {
+      await subprocess;
+    } catch (error) {
+      throw new AIRewindError('GIT_ERROR', `Git operation failed: ${stderr.trim() || (error as ExecaError).shortMessage}`);
     }
   }
 
@@ -93,658 +357,2381 @@ export class AIRewind {
     return existsSync(this.config.gitDir);
   }
 
-  async initialize(): Promise<void> {
-    const spinner = ora('Initializing AI tracking repository...').start();
+  getTrackerConfig(): TrackerConfig {
+    return { ...this.config };
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!(await this.isInitialized())) {
+      throw new AIRewindError('NOT_INITIALIZED', 'AI tracking repository not initialized. Run "ai-rewind init" first.');
+    }
+  }
+
+  async initialize(): Promise<InitResult> {
+    if (await this.isInitialized()) {
+      throw new AIRewindError('ALREADY_INITIALIZED', 'Repository already initialized. To reinitialize, first delete .git-ai-tracking directory');
+    }
+
+    // Check for existing Git repository
+    const mainRepoDetected = existsSync(join(this.config.workTree, '.git'));
+
+    await this.createRepository();
+    
+    // Stage all files (except .git-ai-tracking which is now in .gitignore)
+    const snapshot = await this.stageSnapshot();
+    let secrets: SecretFinding[];
+    try {
+      secrets = await this.guardSecrets();
+    } catch (error) {
+      // Leave nothing behind, so init can simply be run again once the secrets are dealt with
+      rmSync(this.config.gitDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    // Create initial commit
+    await this.writeCommit('Initial state before AI changes', snapshot.trailers, { allowEmpty: true });
+
+    // Run git gc to clean up
+    await this.execGit(['gc', '--auto']);
+
+    return {
+      workTree: this.config.workTree,
+      gitDir: this.config.gitDir,
+      mainRepoDetected,
+      head: await this.getCommit('HEAD'),
+      secrets
+    };
+  }
+
+  // Empty shadow repository, ready for the initial snapshot or an imported bundle
+  private async createRepository(): Promise<void> {
+    // Initialize repository
+    await this.execGit(['init', `--initial-branch=${this.configManager.defaultBranch}`]);
+
+    // Configure git
+    await this.execGit(['config', 'user.name', 'AI Assistant']);
+    await this.execGit(['config', 'user.email', 'ai@local']);
+    
+    // Set core.autocrlf based on platform
+    const autocrlf = process.platform === 'win32' ? 'true' : 'input';
+    await this.execGit(['config', 'core.autocrlf', autocrlf]);
+
+    // Add to .gitignore BEFORE staging files
+    this.updateGitignore();
+    // Exclusions must exist before the first snapshot, or it picks up node_modules and .env files
+    this.writeExcludeFile();
+  }
+
+  private updateGitignore(): void {
+    const gitignorePath = this.config.ignoreFile;
+    const trackingDirEntry = '.git-ai-tracking/';
+    
+    let content = '';
+    if (existsSync(gitignorePath)) {
+      content = readFileSync(gitignorePath, 'utf-8');
+    }
+
+    if (!content.includes(trackingDirEntry)) {
+      const newContent = content.length > 0 && !content.endsWith('\n') 
+        ? `${content}\n\n# AI Change Tracking\n${trackingDirEntry}\n`
+        : `${content}\n# AI Change Tracking\n${trackingDirEntry}\n`;
+      
+      writeFileSync(gitignorePath, newContent);
+    }
+  }
+
+  // info/exclude holds excludePatterns followed by .ai-rewindignore, so '!pattern' lines
+  // in the ignore file can re-include paths the config excludes
+  private writeExcludeFile(): void {
+    const excludePatterns = this.configManager.excludePatterns;
+    const ignoreFile = readIgnoreFile(this.config.workTree);
+    const infoDir = join(this.config.gitDir, 'info');
+    if (!existsSync(infoDir)) {
+      mkdirSync(infoDir, { recursive: true });
+    }
+
+    // explainIgnored maps line numbers back through this layout
+    const lines = ['# excludePatterns', ...excludePatterns, `# ${IGNORE_FILE}`, ...ignoreFile.content.split('\n')];
+    writeFileSync(join(infoDir, 'exclude'), `${lines.join('\n')}\n`, 'utf-8');
+  }
+
+  async getChangedFiles(): Promise<string[]> {
+    await this.ensureInitialized();
+
+    // Make sure excluded files don't show up as pending changes
+    this.writeExcludeFile();
+    return (await this.getStatusEntries()).map(entry => entry.path);
+  }
+
+  async watch(options: WatchOptions = {}): Promise<Watcher> {
+    await this.ensureInitialized();
+
+    const watcher = new Watcher(this, this.config.workTree, this.configManager, options);
+    watcher.start();
+    return watcher;
+  }
+
+  async commit(message?: string, metadata: CheckpointMetadata = {}): Promise<CommitResult> {
+    // Validate commit message
+    if (message) {
+      if (typeof message !== 'string') {
+        throw new AIRewindError('INVALID_ARGUMENT', 'Commit message must be a string');
+      }
+      if (message.length > 1000) {
+        throw new AIRewindError('INVALID_ARGUMENT', 'Commit message too long (max 1000 characters)');
+      }
+      // Remove any control characters
+      message = stripControlCharacters(message);
+    }
+
+    const trailers = this.resolveMetadata(metadata);
+
+    await this.ensureInitialized();
+
+    this.writeExcludeFile();
+
+    // Check for changes
+    const changes = await this.getStatusEntries();
+    if (changes.length === 0) {
+      return {
+        committed: false,
+        filesChanged: 0,
+        recentCommits: await this.getLog(['-5']),
+        compaction: null,
+        largeFiles: [],
+        secrets: []
+      };
+    }
+
+    const snapshot = await this.stageSnapshot();
+    const secrets = await this.guardSecrets();
+    // Redaction can leave the index identical to the latest checkpoint
+    if (snapshot.trailers.length === 0 && (await this.execGit(['diff', '--cached', '--quiet']).then(() => true, () => false))) {
+      return {
+        committed: false,
+        filesChanged: 0,
+        recentCommits: await this.getLog(['-5']),
+        compaction: null,
+        largeFiles: [],
+        secrets
+      };
+    }
+
+    // Generate commit message if not provided
+    if (!message) {
+      message = this.configManager.formatCommitMessage();
+    }
+
+    await this.writeCommit(message, [...trailers, ...snapshot.trailers], { allowEmpty: snapshot.trailers.length > 0 });
+
+    // Run git gc periodically to clean up
+    const commitCount = await this.execGit(['rev-list', '--count', 'HEAD']);
+    if (parseInt(commitCount) % 10 === 0) {
+      await this.execGit(['gc', '--auto']);
+    }
+
+    // Fold history beyond maxCommits into a base snapshot
+    const compaction = await this.compact();
+
+    const recentCommits = await this.getLog(['-5']);
+    return {
+      committed: true,
+      commit: recentCommits[0],
+      filesChanged: changes.length,
+      recentCommits,
+      compaction,
+      largeFiles: snapshot.changed,
+      secrets
+    };
+  }
+
+  // allowEmpty covers checkpoints whose only change is to a file kept out of the index.
+  // Every checkpoint also records where the main repository stood.
+  private async writeCommit(message: string, trailers: string[], options: { allowEmpty?: boolean } = {}): Promise<void> {
+    const main = await this.getMainRepoState();
+    const allTrailers = main
+      ? [
+        ...trailers,
+        `${MAIN_HEAD_TRAILER}: ${main.head}`,
+        ...(main.branch ? [`${MAIN_BRANCH_TRAILER}: ${main.branch}`] : []),
+        `${MAIN_DIRTY_TRAILER}: ${main.dirty}`
+      ]
+      : trailers;
+    // Message goes through stdin so trailer values never have to pass argument validation
+    const body = allTrailers.length > 0 ? `${message}\n\n${allTrailers.join('\n')}\n` : `${message}\n`;
+    await this.execGit(['commit', '-F', '-', ...(options.allowEmpty ? ['--allow-empty'] : [])], { input: body });
+  }
+
+  // add -A, except that binary files and files over maxFileSize are kept out of the index and
+  // recorded in AI-Large-File trailers instead (with their content stored under the 'store' policy)
+  private async stageSnapshot(): Promise<{ trailers: string[]; changed: LargeFileEntry[] }> {
+    const largeFiles = await this.scanLargeFiles();
+    if (largeFiles.length === 0) {
+      await this.execGit(['add', '-A']);
+      return { trailers: [], changed: [] };
+    }
+
+    for (const entry of largeFiles) {
+      if (entry.policy === 'store' && entry.hash) {
+        this.largeFileStore.put(entry.path, entry.hash);
+      }
+    }
+    // Files that grew past the limit after they were committed leave the index too
+    await this.execGit(['rm', '--cached', '-q', '--ignore-unmatch', '--pathspec-from-file=-', '--pathspec-file-nul'], {
+      input: largeFiles.map(entry => `:(literal)${entry.path}\0`).join('')
+    });
+    await this.execGit(['add', '-A', '--pathspec-from-file=-', '--pathspec-file-nul'], {
+      input: ['.', ...largeFiles.map(entry => `:(exclude,literal)${entry.path}`)].map(spec => `${spec}\0`).join('')
+    });
+
+    const previous = await this.readLargeFiles('HEAD');
+    return {
+      trailers: largeFiles.map(formatLargeFileTrailer),
+      changed: largeFiles.filter(entry => !previous.some(old => sameLargeFile(old, entry)))
+    };
+  }
+
+  // Checks the lines the staged snapshot adds against the secret rules and applies
+  // secretPolicy: 'block' unstages everything and throws, 'redact' stages a copy with the
+  // secrets replaced (the working file is left alone), 'warn' just reports them. Findings
+  // of guess-based rules are always just reported
+  private async guardSecrets(): Promise<SecretFinding[]> {
+    const policy = this.configManager.secretPolicy;
+    if (policy === 'off') {
+      return [];
+    }
+    const hasHead = await this.execGit(['rev-parse', '--verify', '--quiet', 'HEAD']).then(() => true, () => false);
+    const scanner = new PatchScanner();
+    await this.streamGit(['diff', '--cached', '--no-color', '--no-ext-diff', '--no-renames', '-U0', hasHead ? 'HEAD' : EMPTY_TREE], line => scanner.push(line));
+    const warnings = scanner.matches.filter(match => match.rule.heuristic).map(match => toSecretFinding(match, false));
+    const matches = scanner.matches.filter(match => !match.rule.heuristic);
+    if (matches.length === 0 || policy === 'warn') {
+      return [...matches.map(match => toSecretFinding(match, false)), ...warnings];
+    }
+
+    if (policy === 'block') {
+      await this.execGit(['reset', '-q']).catch(() => '');
+      const lines = matches.map(match => `  ${match.path}:${match.line} ${match.rule.description} (${maskSecret(match.value)})`);
+      throw new AIRewindError(
+        'SECRET_DETECTED',
+        `Checkpoint blocked: ${matches.length} possible secret(s) found\n${lines.join('\n')}\n` +
+          `Remove them, add "ai-rewind:allow" to the line, ignore the file, or change secretPolicy (redact, warn, off)`
+      );
+    }
+
+    // redact: "<mode> <blob> <stage>\t<path>" per staged file gives each file's mode
+    const modes = new Map<string, string>();
+    for (const entry of (await this.execGit(['ls-files', '-s', '-z'])).split('\0').filter(Boolean)) {
+      const tab = entry.indexOf('\t');
+      modes.set(entry.slice(tab + 1), entry.split(' ')[0]);
+    }
+    const reported: SecretMatch[] = [];
+    for (const path of new Set(matches.map(match => match.path))) {
+      const content = readFileSync(join(this.config.workTree, path), 'utf-8');
+      // add -A staged the working file itself, so secrets an earlier checkpoint already
+      // redacted appear as added lines again; only lines whose redacted form is new count
+      const previous = new Set((await this.execGit(['show', `HEAD:${path}`]).catch(() => '')).split('\n'));
+      const lines = content.split('\n');
+      reported.push(...matches.filter(match => match.path === path && !previous.has(redactSecrets(path, lines[match.line - 1] ?? ''))));
+      await this.stageRedacted(path, content, modes.get(path) ?? '100644');
+    }
+    return [...reported.map(match => toSecretFinding(match, true)), ...warnings];
+  }
+
+  private async stageRedacted(path: string, content: string, mode: string): Promise<void> {
+    const blob = (await this.execGit(['hash-object', '-w', '--stdin', `--path=${path}`], { input: redactSecrets(path, content) })).trim();
+    await this.execGit(['update-index', '--index-info'], { input: `${mode} ${blob}\t${path}\n` });
+  }
+
+  // Whether the latest checkpoint holds exactly the redacted form of the working file
+  private async matchesRedactedCopy(path: string): Promise<boolean> {
+    const fullPath = join(this.config.workTree, path);
+    if (!statSync(fullPath, { throwIfNoEntry: false })?.isFile()) {
+      return false;
+    }
+    const content = readFileSync(fullPath, 'utf-8');
+    const redacted = redactSecrets(path, content);
+    if (redacted === content) {
+      return false;
+    }
+    const [stored, candidate] = await Promise.all([
+      this.execGit(['rev-parse', '--verify', '--quiet', `HEAD:${path}`]).catch(() => ''),
+      this.execGit(['hash-object', '--stdin', `--path=${path}`], { input: redacted })
+    ]);
+    return stored.trim() === candidate.trim();
+  }
+
+  // Binary files and files over maxFileSize among those a snapshot would include (tracked or
+  // untracked, not ignored)
+  private async scanLargeFiles(): Promise<LargeFileEntry[]> {
+    const maxFileSize = this.configManager.maxFileSize;
+    const policy = this.configManager.binaryPolicy;
+    const listed = await this.execGit(['ls-files', '-z', '--cached', '--others', '--exclude-standard']);
+
+    const entries: LargeFileEntry[] = [];
+    for (const path of new Set(listed.split('\0').filter(Boolean))) {
+      const fullPath = join(this.config.workTree, path);
+      const stat = statSync(fullPath, { throwIfNoEntry: false });
+      if (!stat?.isFile() || stat.size === 0) {
+        continue;
+      }
+      const binary = isBinaryFile(fullPath);
+      if (binary || (maxFileSize > 0 && stat.size > maxFileSize)) {
+        entries.push({
+          path,
+          size: stat.size,
+          binary,
+          policy,
+          hash: policy === 'skip' ? null : this.largeFileStore.hash(path)
+        });
+      }
+    }
+    return entries;
+  }
+
+  // Hashes of stored content listed by checkpoints reachable from any ref but the excluded ones
+  private async referencedLargeFiles(excludeRefs: string[] = []): Promise<Set<string>> {
+    const values = await this.execGit([
+      'log',
+      ...excludeRefs.map(ref => `--exclude=${ref}`),
+      '--all',
+      `--format=%(trailers:key=${LARGE_FILE_TRAILER},valueonly)`
+    ]);
+    return new Set(parseLargeFileTrailers(values).flatMap(entry => (entry.hash ? [entry.hash] : [])));
+  }
+
+  private async readLargeFiles(revision: string): Promise<LargeFileEntry[]> {
+    const values = await this.execGit(['log', '-1', `--format=%(trailers:key=${LARGE_FILE_TRAILER},valueonly)`, revision]).catch(() => '');
+    return parseLargeFileTrailers(values);
+  }
+
+  // Large files that differ from the latest checkpoint, as status entries. Skipped files
+  // never count as changes.
+  private async getLargeFileChanges(largeFiles: LargeFileEntry[]): Promise<StatusEntry[]> {
+    const previous = (await this.readLargeFiles('HEAD')).filter(entry => entry.policy !== 'skip');
+    const changes: StatusEntry[] = [];
+    for (const entry of largeFiles) {
+      if (entry.policy === 'skip' || previous.some(old => sameLargeFile(old, entry))) {
+        continue;
+      }
+      const modified = previous.some(old => old.path === entry.path);
+      changes.push({ path: entry.path, code: modified ? ' M' : '??', kind: modified ? 'modified' : 'added' });
+    }
+    for (const old of previous) {
+      if (!existsSync(join(this.config.workTree, old.path))) {
+        changes.push({ path: old.path, code: ' D', kind: 'deleted' });
+      }
+    }
+    return changes;
+  }
+
+  // Called whenever HEAD moves to another snapshot: brings back the content of large files
+  // the checkpoint stored. Files it doesn't mention are left alone, like untracked files.
+  private async restoreLargeFiles(): Promise<void> {
+    for (const entry of await this.readLargeFiles('HEAD')) {
+      if (entry.policy !== 'store' || !entry.hash || !this.largeFileStore.has(entry.hash)) {
+        continue;
+      }
+      if (entry.path.split('/').includes('..') || isAbsolute(entry.path)) {
+        continue;
+      }
+      const fullPath = join(this.config.workTree, entry.path);
+      if (existsSync(fullPath) && this.largeFileStore.hash(entry.path) === entry.hash) {
+        continue;
+      }
+      this.largeFileStore.restore(entry.hash, entry.path);
+    }
+  }
+
+  // Checkpoints pending work before an operation that could overwrite it. Unlike
+  // commit() this never compacts, so revisions the caller already resolved stay valid.
+  private async saveUncommittedChanges(message: string, metadata: CheckpointMetadata = {}): Promise<CommitEntry | null> {
+    this.writeExcludeFile();
+    if ((await this.getStatusEntries()).length === 0) {
+      return null;
+    }
+    const snapshot = await this.stageSnapshot();
+    await this.guardSecrets();
+    await this.writeCommit(message, [...this.resolveMetadata(metadata), ...snapshot.trailers], { allowEmpty: snapshot.trailers.length > 0 });
+    return this.getCommit('HEAD');
+  }
+
+  // Checkpoint driven by a Claude Code PreToolUse/PostToolUse hook payload
+  async commitFromHook(event: HookEvent, payload: HookPayload): Promise<HookResult> {
+    const tool = payload.tool_name ?? null;
+    const result: HookResult = { event, tool, skipped: null, files: [], commit: null };
+
+    if (!tool || !HOOK_TOOLS.includes(tool)) {
+      result.skipped = 'unsupported-tool';
+      return result;
+    }
+    // Hooks fire in every project; only checkpoint where tracking was set up
+    if (!(await this.isInitialized())) {
+      result.skipped = 'not-initialized';
+      return result;
+    }
+
+    const { message, files } = describeToolUse(event, payload, this.config.workTree);
+    result.message = message;
+    result.files = files;
+    result.commit = await this.commit(message.slice(0, 1000), {
+      agent: process.env.AI_REWIND_AGENT || 'claude-code',
+      session: payload.session_id,
+      promptRef: payload.transcript_path
+    });
+    return result;
+  }
+
+  async planRollback(target: number | RollbackTarget = 1): Promise<RollbackPlan> {
+    await this.ensureInitialized();
+
+    const { count, selector } = typeof target === 'number'
+      ? { count: target, selector: undefined }
+      : await this.resolveRollbackTarget(target);
+
+    // Validate input
+    if (!Number.isInteger(count) || count < 1) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Rollback count must be a positive integer');
+    }
+
+    // Check commit count
+    const commitCount = parseInt(await this.execGit(['rev-list', '--count', 'HEAD']));
+    
+    if (commitCount <= 1) {
+      throw new AIRewindError('NOTHING_TO_ROLLBACK', 'Cannot rollback: only initial commit exists');
+    }
+
+    if (count >= commitCount) {
+      throw new AIRewindError('NOTHING_TO_ROLLBACK', `Cannot roll back ${count} commits (only ${commitCount - 1} AI changes exist)`);
+    }
+
+    return {
+      count,
+      selector,
+      head: await this.getCommit('HEAD'),
+      target: await this.getCommit(`HEAD~${count}`),
+      commits: await this.getLog(['-n', count.toString()]),
+      files: await this.getFileChanges(`HEAD~${count}`, 'HEAD'),
+      uncommittedChanges: await this.getStatusEntries(),
+      mainRepoDirty: await this.isMainRepoDirty()
+    };
+  }
+
+  async rollback(target: number | RollbackTarget = 1, options: RollbackOptions = {}): Promise<RollbackResult> {
+    const plan = await this.planRollback(target);
+    const result: RollbackResult = { plan, applied: false, cancelled: false, removedBackups: [] };
+
+    // A merge rollback carries uncommitted edits (including the main repo's) over to the target
+    const merge = !!options.merge;
+    if (merge) {
+      result.merged = plan.uncommittedChanges.map(entry => entry.path);
+      result.conflicts = [];
+    }
+
+    if (options.dryRun) {
+      return result;
+    }
+
+    // Check for uncommitted changes in shadow repo
+    if (plan.uncommittedChanges.length > 0 && !options.force && !merge) {
+      throw new AIRewindError('UNCOMMITTED_CHANGES', 'You have uncommitted changes that will be lost! Commit them first, use --merge to keep them, or use --force to rollback anyway.');
+    }
+
+    // Check for main git repo conflicts
+    if (plan.mainRepoDirty && !options.force && !merge) {
+      throw new AIRewindError('MAIN_REPO_DIRTY', 'Main git repository has uncommitted changes. Commit or stash them first (git stash), use --merge to keep them, or use --force to proceed anyway.');
+    }
+
+    if (options.confirm && !(await options.confirm(plan))) {
+      result.cancelled = true;
+      return result;
+    }
+
+    // Snapshot the uncommitted edits on top of HEAD so the backup tag keeps them too
+    const snapshot = merge ? await this.saveUncommittedChanges('WIP: Uncommitted changes before rollback') : null;
+
+    // Create backup tag before rollback
+    result.backupTag = await this.createBackupTag();
+
+    // Auto-cleanup old backup tags (backupRetentionCount / backupMaxAgeDays)
+    result.removedBackups = await this.applyBackupRetention();
+
+    await this.execGit(['reset', '--hard', plan.target.hash]);
+    await this.restoreLargeFiles();
+
+    if (snapshot) {
+      Object.assign(result, await this.mergeUncommitted(snapshot.hash));
+    }
+
+    result.applied = true;
+    result.head = await this.getCommit('HEAD');
+    return result;
+  }
+
+  // Three-way merge of a snapshot's edits onto HEAD, using the snapshot's parent as the base:
+  // checkpoint changes between the two are dropped, the edits themselves are kept uncommitted
+  private async mergeUncommitted(snapshot: string): Promise<{ merged: string[]; conflicts: string[] }> {
+    const merged = (await this.execGit(['diff', '--name-only', '--no-renames', `${snapshot}~1`, snapshot]))
+      .split('\n')
+      .filter(Boolean);
+
+    let conflicts: string[] = [];
+    try {
+      await this.execGit(['cherry-pick', '--no-commit', snapshot]);
+    } catch (error) {
+      conflicts = await this.getUnmergedPaths();
+      if (conflicts.length === 0) {
+        throw error;
+      }
+    }
+
+    // Forget the cherry-pick and unstage, leaving the edits (and any conflict markers) as uncommitted work
+    await this.execGit(['cherry-pick', '--quit']);
+    await this.execGit(['reset', '-q']);
+    return { merged, conflicts };
+  }
+
+  // Applies the inverse of one checkpoint on top of the current state, keeping later work
+  async revert(revision: string, options: RevertOptions = {}): Promise<RevertResult> {
+    await this.ensureInitialized();
+
+    let hash: string;
+    try {
+      hash = (await this.execGit(['rev-parse', '--verify', `${revision}^{commit}`])).trim();
+    } catch {
+      throw new AIRewindError('NOT_FOUND', `Commit '${revision}' not found`);
+    }
+    const target = await this.getCommit(hash);
+    const isAncestor = await this.execGit(['merge-base', '--is-ancestor', hash, 'HEAD']).then(() => true, () => false);
+    if (!isAncestor) {
+      throw new AIRewindError('NOT_FOUND', `Commit '${revision}' is not part of the current history`);
+    }
+    const parents = (await this.execGit(['rev-list', '--parents', '-n', '1', hash])).trim().split(' ').slice(1);
+    if (parents.length === 0) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Cannot revert the initial snapshot; use rollback instead');
+    }
+
+    if (options.dryRun) {
+      return this.previewRevert(target, parents[0]);
+    }
+
+    // Save pending work first so reverting can never lose it
+    const result: RevertResult = {
+      target,
+      dryRun: false,
+      applied: false,
+      conflicts: [],
+      resolution: null,
+      savedChanges: await this.saveUncommittedChanges(`WIP: Before reverting ${target.shortHash}`, options.metadata),
+      files: []
+    };
+
+    const startHead = (await this.execGit(['rev-parse', 'HEAD'])).trim();
+    const revertArgs = ['revert', '--no-commit', ...(parents.length > 1 ? ['-m', '1'] : []), hash];
+    try {
+      await this.execGit(revertArgs);
+    } catch (error) {
+      result.conflicts = await this.getUnmergedPaths();
+      if (result.conflicts.length === 0) {
+        await this.abortRevert();
+        throw error;
+      }
+
+      const resolution: ConflictResolution = options.onConflict
+        ?? (await options.resolveConflict?.(result.conflicts))
+        ?? 'abort';
+      result.resolution = resolution;
+      await this.abortRevert();
+      if (resolution === 'abort') {
+        return result;
+      }
+      await this.revertPreferring(revertArgs, resolution);
+    }
+
+    // Listed before committing: the checkpoint can trigger compaction, which prunes startHead
+    const files = await this.getFileChanges(startHead);
+    const checkpoint = await this.commit(`REVERT: ${target.subject} (${target.shortHash})`, options.metadata);
+    result.applied = checkpoint.committed;
+    result.commit = checkpoint.commit;
+    result.files = checkpoint.committed ? files : [];
+    return result;
+  }
+
+  // The files a revert would change, and which of them no longer apply cleanly to the
+  // working tree (the revert starts from it once pending work is saved)
+  private async previewRevert(target: CommitEntry, parent: string): Promise<RevertResult> {
+    const files = await this.getFileChanges(target.hash, parent);
+    const conflicts: string[] = [];
+    for (const file of files) {
+      const paths = [file.originalPath, file.path].filter((path): path is string => !!path);
+      const patch = await this.execGit(['diff', '--binary', parent, target.hash, '--', ...paths.map(path => `:(literal)${path}`)]);
+      const clean = await this.execGit(['apply', '-R', '--check'], { input: `${patch}\n` }).then(() => true, () => false);
+      if (!clean) {
+        conflicts.push(file.path);
+      }
+    }
+    return { target, dryRun: true, applied: false, conflicts, resolution: null, savedChanges: null, files };
+  }
+
+  // Redo a conflicting revert, letting one side win every conflicting hunk
+  private async revertPreferring(revertArgs: string[], side: 'ours' | 'theirs'): Promise<void> {
+    const [command, ...rest] = revertArgs;
+    await this.execGit([command, '-X', side, ...rest]).catch(() => undefined);
+
+    // Modify/delete conflicts have no hunks to pick from, so take the whole file
+    for (const path of await this.getUnmergedPaths()) {
+      await this.execGit(['checkout', `--${side}`, '--', path]).then(
+        () => this.execGit(['add', '--', path]),
+        () => this.execGit(['rm', '-q', '-f', '--', path])
+      );
+    }
+  }
+
+  private async abortRevert(): Promise<void> {
+    await this.execGit(['revert', '--abort']).catch(() => this.execGit(['reset', '--hard', 'HEAD']));
+  }
+
+  private async getUnmergedPaths(): Promise<string[]> {
+    const output = await this.execGit(['diff', '--name-only', '--diff-filter=U']).catch(() => '');
+    return [...new Set(output.split('\n').filter(Boolean))];
+  }
+
+  // Replays checkpoints on the main repository's current branch, one commit each or squashed.
+  // Diffs are applied to the main index only (the working files already hold the result), so
+  // edits in progress are never touched; if any step fails the branch and index are reset.
+  async promote(range: string, options: PromoteOptions = {}): Promise<PromoteResult> {
+    await this.ensureInitialized();
+    const coAuthors = (options.coAuthors ?? []).map(identity => identity.trim());
+    for (const identity of coAuthors) {
+      if (!/^[^<>\r\n]+ <[^<>\s]+@[^<>\s]+>$/.test(identity)) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Invalid co-author '${identity}': use "Name <email>"`);
+      }
+    }
+
+    const result: PromoteResult = { range, checkpoints: [], skipped: [], squashed: !!options.squash, branch: null, commits: [], patches: [] };
+    // Each unit becomes one commit or patch
+    let units: { from: string; to: string; checkpoints: CommitEntry[] }[] = [];
+    for (const hash of await this.resolvePromoteRange(range)) {
+      const checkpoint = await this.getCommit(hash);
+      const parent = (await this.execGit(['rev-parse', '--verify', '--quiet', `${hash}^`]).catch(() => '')).trim() || EMPTY_TREE;
+      if (await this.execGit(['diff', '--quiet', parent, hash]).then(() => true, () => false)) {
+        result.skipped.push(checkpoint);
+        continue;
+      }
+      result.checkpoints.push(checkpoint);
+      units.push({ from: parent, to: hash, checkpoints: [checkpoint] });
+    }
+    if (units.length === 0) {
+      throw new AIRewindError('NOTHING_TO_COMMIT', `No file changes to promote in '${range}'`);
+    }
+    if (options.squash) {
+      units = [{ from: units[0].from, to: units[units.length - 1].to, checkpoints: result.checkpoints }];
+    }
+    if (options.message !== undefined && units.length > 1) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'A message can only be given for a single commit; add --squash');
+    }
+    const messages: string[] = [];
+    for (const unit of units) {
+      messages.push(await this.promotionMessage(unit.checkpoints, options.message, coAuthors));
+    }
+
+    if (options.patchDir) {
+      result.patches = await this.writePromotionPatches(resolve(options.patchDir), units, messages);
+      return result;
+    }
+
+    const prefix = await this.execMainGit(['rev-parse', '--show-prefix']).catch(() => {
+      throw new AIRewindError('NOT_FOUND', `No main git repository at ${this.config.workTree}; use --patches to write patch files instead`);
+    });
+    if (!(await this.execMainGit(['diff', '--cached', '--quiet']).then(() => true, () => false))) {
+      throw new AIRewindError('MAIN_REPO_DIRTY', 'Main git repository has staged changes. Commit or unstage them first.');
+    }
+    const startHead = (await this.execMainGit(['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => '')).trim();
+    result.branch = (await this.execMainGit(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '')).trim() || null;
+
+    for (const [index, unit] of units.entries()) {
+      const single = unit.checkpoints.length === 1 ? unit.checkpoints[0] : null;
+      try {
+        const patch = await this.execGit(['diff', '--binary', '--full-index', '--no-color', '--no-ext-diff', unit.from, unit.to]);
+        await this.execMainGit(['apply', '--cached', ...(prefix.trim() ? [`--directory=${prefix.trim()}`] : [])], { input: `${patch}\n` });
+        // A replayed checkpoint keeps its time; a squashed commit gets the current one
+        await this.execMainGit(['commit', '-q', '-F', '-', ...(single ? [`--date=${single.date}`] : [])], { input: messages[index] });
+        result.commits.push({ hash: (await this.execMainGit(['rev-parse', 'HEAD'])).trim(), subject: messages[index].split('\n')[0] });
+      } catch (error) {
+        if (startHead) {
+          await this.execMainGit(['reset', '-q', startHead]).catch(() => '');
+        } else {
+          await this.execMainGit(['update-ref', '-d', 'HEAD']).catch(() => '');
+          await this.execMainGit(['read-tree', '--empty']).catch(() => '');
+        }
+        const label = single ? single.shortHash : `${unit.checkpoints[0].shortHash}..${unit.checkpoints[unit.checkpoints.length - 1].shortHash}`;
+        throw new AIRewindError('GIT_ERROR', `Could not promote ${label}, so the main repository was left as it was: ${(error as Error).message}`);
+      }
+    }
+    return result;
+  }
+
+  // "A..B" is the checkpoints after A up to B (HEAD if omitted); a single revision is just that checkpoint
+  private async resolvePromoteRange(range: string): Promise<string[]> {
+    if (range.includes('...')) {
+      throw new AIRewindError('INVALID_ARGUMENT', `Invalid range '${range}': use <from>..<to> or a single checkpoint`);
+    }
+    const dots = range.indexOf('..');
+    if (dots === -1) {
+      return [(await this.resolveCheckpoint(range)).hash];
+    }
+    const from = (await this.resolveCheckpoint(range.slice(0, dots))).hash;
+    const to = (await this.resolveCheckpoint(range.slice(dots + 2) || 'HEAD')).hash;
+    const hashes = (await this.execGit(['rev-list', '--reverse', '--no-merges', `${from}..${to}`])).split('\n').filter(Boolean);
+    if (hashes.length === 0) {
+      throw new AIRewindError('INVALID_ARGUMENT', `No checkpoints in range '${range}'`);
+    }
+    return hashes;
+  }
+
+  // The checkpoint's own message without its AI-* trailers, or a summary of several, plus co-authors
+  private async promotionMessage(checkpoints: CommitEntry[], message: string | undefined, coAuthors: string[]): Promise<string> {
+    let text: string;
+    if (message?.trim()) {
+      text = message.trim();
+    } else if (checkpoints.length === 1) {
+      const body = stripTrailers(await this.execGit(['log', '-1', '--format=%b', checkpoints[0].hash]));
+      text = body ? `${checkpoints[0].subject}\n\n${body}` : checkpoints[0].subject;
+    } else {
+      text = `AI changes from ${checkpoints.length} checkpoints\n\n${checkpoints.map(checkpoint => `- ${checkpoint.subject}`).join('\n')}`;
+    }
+    const trailers = coAuthors.map(identity => `Co-authored-by: ${identity}`);
+    return trailers.length > 0 ? `${text}\n\n${trailers.join('\n')}\n` : `${text}\n`;
+  }
+
+  // Mailbox-format files like `git format-patch` writes, so `git am` can apply them anywhere
+  private async writePromotionPatches(dir: string, units: { from: string; to: string; checkpoints: CommitEntry[] }[], messages: string[]): Promise<string[]> {
+    mkdirSync(dir, { recursive: true });
+    // The person promoting is the author, as they would be when committing
+    const author = (await this.execMainGit(['var', 'GIT_AUTHOR_IDENT']).catch(() => 'AI Assistant <ai@local>')).replace(/ \d+ [+-]\d{4}$/, '');
+    const paths: string[] = [];
+    for (const [index, unit] of units.entries()) {
+      const [subject] = messages[index].split('\n');
+      const body = messages[index].slice(subject.length).replace(/^\n+/, '');
+      const date = (await this.execGit(['log', '-1', '--format=%aD', unit.to])).trim();
+      const stat = await this.execGit(['diff', '--stat', '--summary', '--no-color', unit.from, unit.to]);
+      const diff = await this.execGit(['diff', '--binary', '--full-index', '--no-color', '--no-ext-diff', unit.from, unit.to]);
+      const numbering = units.length > 1 ? ` ${index + 1}/${units.length}` : '';
+      const path = join(dir, `${String(index + 1).padStart(4, '0')}-${patchSlug(subject)}.patch`);
+      writeFileSync(
+        path,
+        `From ${unit.to} Mon Sep 17 00:00:00 2001\nFrom: ${author}\nDate: ${date}\nSubject: [PATCH${numbering}] ${subject}\n\n` +
+          `${body}---\n${stat}\n\n${diff}\n`
+      );
+      paths.push(path);
+    }
+    return paths;
+  }
+
+  // The project's own repository as it is now; null without one or before its first commit
+  private async getMainRepoState(): Promise<MainRepoState | null> {
+    const head = (await this.execMainGit(['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => '')).trim();
+    if (!head) {
+      return null;
+    }
+    const branch = (await this.execMainGit(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '')).trim();
+    const status = await this.execMainGit(['status', '--porcelain']).catch(() => '');
+    return { head, branch: branch || null, dirty: status.trim().length > 0 };
+  }
+
+  // Runs git in the user's own repository, never the shadow one
+  private async execMainGit(args: string[], options: { input?: string } = {}): Promise<string> {
+    try {
+      const { stdout } = await execa('git', args, {
+        shell: false,
+        maxBuffer: 10 * 1024 * 1024,
+        input: options.input,
+        cwd: this.config.workTree
+      });
+      return stdout;
+    } catch (error) {
+      const execaError = error as ExecaError;
+      throw new AIRewindError('GIT_ERROR', `Main repository git operation failed: ${execaError.stderr || execaError.shortMessage}`);
+    }
+  }
+
+  // Turns a hash, message or time target into the number of checkpoints to undo
+  private async resolveRollbackTarget(target: RollbackTarget): Promise<{ count: number; selector?: string }> {
+    const given = (['count', 'to', 'toMessage', 'at', 'ago'] as const).filter(key => target[key] !== undefined);
+    if (given.length > 1) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Specify only one rollback target (count, to, toMessage, at or ago)');
+    }
+    if (target.count !== undefined || given.length === 0) {
+      return { count: target.count ?? 1 };
+    }
+
+    // Rollback moves along first parents, exactly like HEAD~N
+    const history = await this.getLog(['--first-parent']);
+    let index = -1;
+    let selector: string;
+
+    if (target.to !== undefined) {
+      selector = target.to;
+      let hash: string;
+      try {
+        hash = await this.execGit(['rev-parse', '--verify', `${target.to}^{commit}`]);
+      } catch {
+        throw new AIRewindError('NOT_FOUND', `Commit '${target.to}' not found`);
+      }
+      index = history.findIndex(commit => commit.hash === hash.trim());
+      if (index === -1) {
+        throw new AIRewindError('NOT_FOUND', `Commit '${target.to}' is not part of the current history. Use "ai-rewind forward" to restore it.`);
+      }
+    } else if (target.toMessage !== undefined) {
+      const needle = target.toMessage.toLowerCase();
+      selector = `message "${target.toMessage}"`;
+      index = history.findIndex(commit => commit.subject.toLowerCase().includes(needle));
+      if (index === -1) {
+        throw new AIRewindError('NOT_FOUND', `No checkpoint message contains "${target.toMessage}"`);
+      }
+    } else {
+      const time = target.ago !== undefined
+        ? new Date(Date.now() - parseDuration(target.ago))
+        : new Date(target.at as string | Date);
+      if (isNaN(time.getTime())) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Invalid time '${target.at}'`);
+      }
+      selector = target.ago !== undefined ? `${target.ago} ago` : `time ${time.toISOString()}`;
+      index = history.findIndex(commit => new Date(commit.date).getTime() <= time.getTime());
+      if (index === -1) {
+        throw new AIRewindError('NOT_FOUND', `No checkpoint exists at or before ${time.toISOString()}`);
+      }
+    }
+
+    if (index === 0) {
+      throw new AIRewindError('NOTHING_TO_ROLLBACK', `Already at ${history[0].shortHash} (${selector})`);
+    }
+    return { count: index, selector };
+  }
+
+  async status(): Promise<StatusResult> {
+    await this.ensureInitialized();
+
+    const branch = await this.execGit(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '');
+
+    return {
+      workTree: this.config.workTree,
+      gitDir: this.config.gitDir,
+      branch: branch || null,
+      changes: await this.getStatusEntries(),
+      recentCommits: await this.getLog(['-10']),
+      lastCommitFiles: await this.getFileChanges('HEAD~1', 'HEAD').catch(() => []),
+      largeFiles: await this.scanLargeFiles(),
+      mainRepo: await this.getMainRepoState()
+    };
+  }
+
+  async log(count: number = 20, filter: CommitFilter = {}): Promise<CommitEntry[]> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Log count must be a positive integer');
+    }
+
+    await this.ensureInitialized();
+
+    if (!filter.agent && !filter.session && !filter.mainBranch) {
+      return this.getLog(['-n', count.toString()]);
+    }
+    // Trailers are matched here rather than with --grep so values need no regex escaping
+    return (await this.getLog([]))
+      .filter(commit => this.matchesFilter(commit, filter))
+      .slice(0, count);
+  }
+
+  // Refuses to discard uncommitted work unless forced, and leaves a backup tag to undo it
+  async forward(tagOrCommit: string, options: { force?: boolean } = {}): Promise<ForwardResult> {
+    await this.ensureInitialized();
+
+    // Resolved up front: retention below may prune the very backup being restored
+    let target: string;
+    try {
+      target = (await this.execGit(['rev-parse', '--verify', `${tagOrCommit}^{commit}`])).trim();
+    } catch {
+      throw new AIRewindError('NOT_FOUND', `Backup or commit '${tagOrCommit}' not found. Run "ai-rewind backups" to list available backups.`);
+    }
+    if (!options.force && (await this.getStatusEntries()).length > 0) {
+      throw new AIRewindError('UNCOMMITTED_CHANGES', 'You have uncommitted changes that will be lost! Commit them first or use --force to restore anyway.');
+    }
+
+    const backupTag = await this.createBackupTag();
+    const removedBackups = await this.applyBackupRetention();
+    await this.resetTo(target);
+    return {
+      target: tagOrCommit,
+      backupTag,
+      removedBackups,
+      head: await this.getCommit('HEAD')
+    };
+  }
+
+  private async resetTo(revision: string): Promise<void> {
+    await this.execGit(['reset', '--hard', revision]);
+    await this.restoreLargeFiles();
+  }
+
+  async listBackups(): Promise<BackupEntry[]> {
+    await this.ensureInitialized();
+
+    const tags = await this.execGit(['tag', '-l', 'backup-*']);
+    const pinned = new Set(await this.getPinnedBackups());
+    const backups: BackupEntry[] = [];
+
+    for (const tag of tags.split('\n').filter(t => t)) {
+      backups.push({
+        tag,
+        commit: await this.getCommit(tag).catch(() => null),
+        createdAt: parseBackupTime(tag),
+        pinned: pinned.has(tag)
+      });
+    }
+
+    // Newest first by backup time rather than by the date of the commit it points at
+    return backups.sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+  }
+
+  // Applies backupRetentionCount and backupMaxAgeDays; pinned backups are never removed
+  // and don't count towards the limit
+  async pruneBackups(options: { dryRun?: boolean } = {}): Promise<BackupPruneResult> {
+    await this.ensureInitialized();
+
+    const count = this.configManager.backupRetentionCount;
+    const maxAgeDays = this.configManager.backupMaxAgeDays;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DURATION_UNITS.d : null;
+    const removed: BackupRemoval[] = [];
+    let kept = 0;
+    let unpinned = 0;
+
+    for (const backup of await this.listBackups()) {
+      if (backup.pinned) {
+        kept++;
+        continue;
+      }
+      unpinned++;
+      if (count > 0 && unpinned > count) {
+        removed.push({ tag: backup.tag, reason: 'count' });
+      } else if (cutoff !== null && backup.createdAt && Date.parse(backup.createdAt) < cutoff) {
+        removed.push({ tag: backup.tag, reason: 'age' });
+      } else {
+        kept++;
+      }
+    }
+
+    if (!options.dryRun) {
+      for (const { tag } of removed) {
+        await this.execGit(['tag', '-d', tag]);
+      }
+    }
+    const referenced = await this.referencedLargeFiles(options.dryRun ? removed.map(({ tag }) => `refs/tags/${tag}`) : []);
+
+    return {
+      dryRun: !!options.dryRun,
+      removed,
+      kept,
+      retention: { count, maxAgeDays, pinned: await this.getPinnedBackups() },
+      largeFiles: this.largeFileStore.collect(referenced, options.dryRun)
+    };
+  }
+
+  async showBackup(tag: string): Promise<BackupDetails> {
+    const backup = await this.findBackup(tag);
+    return {
+      ...backup,
+      files: await this.getFileChanges('HEAD', tag),
+      stat: await this.execGit(['diff', '--stat', 'HEAD', tag]),
+      patch: await this.execGit(['diff', 'HEAD', tag])
+    };
+  }
+
+  async deleteBackup(tag: string): Promise<BackupEntry> {
+    const backup = await this.findBackup(tag);
+    await this.execGit(['tag', '-d', tag]);
+    await this.setPinned(tag, false);
+    return backup;
+  }
+
+  async pinBackup(tag: string, pinned: boolean = true): Promise<BackupEntry> {
+    const backup = await this.findBackup(tag);
+    if (!pinned && this.configManager.pinnedBackups.includes(tag)) {
+      throw new AIRewindError('INVALID_ARGUMENT', `Backup '${tag}' is pinned in .ai-rewind.json (pinnedBackups); remove it there to unpin`);
+    }
+    await this.setPinned(tag, pinned);
+    return { ...backup, pinned };
+  }
+
+  // Tags the current state as checkpoint/<name>; uncommitted work is checkpointed first
+  async createCheckpoint(name: string, options: CheckpointOptions = {}): Promise<CheckpointResult> {
+    const tag = this.checkpointTag(name);
+    await this.ensureInitialized();
+
+    if (await this.refExists(`refs/tags/${tag}`)) {
+      throw new AIRewindError('ALREADY_EXISTS', `Checkpoint '${name}' already exists. Delete it first with "ai-rewind checkpoint ${name} --delete".`);
+    }
+
+    const savedChanges = await this.saveUncommittedChanges(`ROLLBACK_POINT: ${name}`, options.metadata);
+    await this.execGit(['tag', '-a', tag, '-F', '-', 'HEAD'], { input: options.message?.trim() || `Checkpoint ${name}` });
+
+    return { checkpoint: await this.readCheckpoint(tag), savedChanges };
+  }
+
+  async listCheckpoints(): Promise<NamedCheckpoint[]> {
+    await this.ensureInitialized();
+
+    const tags = await this.execGit(['for-each-ref', '--sort=-creatordate', '--format=%(refname:strip=2)', 'refs/tags/checkpoint/']);
+    const checkpoints: NamedCheckpoint[] = [];
+    for (const tag of tags.split('\n').filter(Boolean)) {
+      checkpoints.push(await this.readCheckpoint(tag));
+    }
+    return checkpoints;
+  }
+
+  async deleteCheckpoint(name: string): Promise<NamedCheckpoint> {
+    const tag = this.checkpointTag(name);
+    await this.ensureInitialized();
+
+    const checkpoint = await this.findCheckpoint(name, tag);
+    await this.execGit(['tag', '-d', tag]);
+    return checkpoint;
+  }
+
+  // Like forward(), by checkpoint name
+  async restoreCheckpoint(name: string, options: { force?: boolean } = {}): Promise<CheckpointRestoreResult> {
+    const tag = this.checkpointTag(name);
+    await this.ensureInitialized();
+
+    await this.findCheckpoint(name, tag);
+    if (!options.force && (await this.getStatusEntries()).length > 0) {
+      throw new AIRewindError('UNCOMMITTED_CHANGES', 'You have uncommitted changes that will be lost! Commit them first or use --force to restore anyway.');
+    }
+
+    const backupTag = await this.createBackupTag();
+    const removedBackups = await this.applyBackupRetention();
+    await this.resetTo(tag);
+    return { name, backupTag, removedBackups, head: await this.getCommit('HEAD') };
+  }
+
+  // Starts experiment/<name> from HEAD (or `from`) and switches the working tree to it
+  async startExperiment(name: string, options: { from?: string } = {}): Promise<ExperimentSwitchResult> {
+    assertRefName(name, 'experiment');
+    await this.ensureInitialized();
+
+    const branch = `experiment/${name}`;
+    if (await this.refExists(`refs/heads/${branch}`)) {
+      throw new AIRewindError('ALREADY_EXISTS', `Experiment '${name}' already exists. Use "ai-rewind experiment switch ${name}" to continue it.`);
+    }
+    const previous = await this.getCurrentBranch();
+    // Resolve before saving so HEAD means the state the user is looking at
+    const from = options.from ? (await this.resolveCheckpoint(options.from)).hash : null;
+    const result = await this.checkoutBranch(branch, { from: 'HEAD' }, previous);
+    if (from) {
+      await this.execGit(['reset', '--hard', from]);
+      await this.restoreLargeFiles();
+      result.head = await this.getCommit('HEAD');
+    }
+    return result;
+  }
+
+  // Swaps the working tree to an experiment, or back to the main branch by its name
+  async switchExperiment(name: string): Promise<ExperimentSwitchResult> {
+    await this.ensureInitialized();
+
+    const branch = await this.resolveBranch(name, await this.getMainBranch());
+    const previous = await this.getCurrentBranch();
+    if (branch === previous) {
+      throw new AIRewindError('INVALID_ARGUMENT', `Already on ${branch}`);
+    }
+    return this.checkoutBranch(branch, null, previous);
+  }
+
+  async listExperiments(): Promise<ExperimentList> {
+    await this.ensureInitialized();
+
+    const mainBranch = await this.getMainBranch();
+    const current = await this.getCurrentBranch();
+    const branches = await this.execGit(['for-each-ref', '--format=%(refname:short)', 'refs/heads/experiment/']);
+    const experiments: ExperimentEntry[] = [];
+    for (const branch of branches.split('\n').filter(Boolean)) {
+      const [behind, ahead] = (await this.execGit(['rev-list', '--left-right', '--count', `${mainBranch}...${branch}`]))
+        .split(/\s+/)
+        .map(count => parseInt(count));
+      experiments.push({
+        name: branch.replace(/^experiment\//, ''),
+        branch,
+        head: await this.getCommit(branch),
+        current: branch === current,
+        ahead,
+        behind
+      });
+    }
+    return { mainBranch, current, experiments };
+  }
+
+  async compareExperiments(a: string, b: string): Promise<ExperimentComparison> {
+    await this.ensureInitialized();
+
+    const mainBranch = await this.getMainBranch();
+    const [branchA, branchB] = [await this.resolveBranch(a, mainBranch), await this.resolveBranch(b, mainBranch)];
+    const base = await this.execGit(['merge-base', branchA, branchB]).catch(() => '');
+    return {
+      a: branchA,
+      b: branchB,
+      aHead: await this.getCommit(branchA),
+      bHead: await this.getCommit(branchB),
+      base: base ? await this.getCommit(base) : null,
+      files: await this.getFileChanges(branchA, branchB),
+      stat: await this.execGit(['diff', '--stat', branchA, branchB]),
+      patch: await this.execGit(['diff', branchA, branchB])
+    };
+  }
+
+  // Makes an experiment the main line: the main branch is moved to the experiment's
+  // checkpoints (its old state kept in a backup tag, pinned because no other ref points there
+  // anymore) and the experiment branch removed
+  async adoptExperiment(name: string): Promise<ExperimentAdoptResult> {
+    await this.ensureInitialized();
+
+    const mainBranch = await this.getMainBranch();
+    const branch = await this.resolveBranch(name, mainBranch);
+    if (branch === mainBranch) {
+      throw new AIRewindError('INVALID_ARGUMENT', `${mainBranch} is already the main line`);
+    }
+
+    const savedChanges = await this.saveUncommittedChanges(`WIP: Before adopting experiment ${name}`);
+    const backupTag = await this.createBackupTag(mainBranch);
+    await this.setPinned(backupTag, true);
+    const removedBackups = await this.applyBackupRetention();
+    await this.execGit(['checkout', '-q', '-B', mainBranch, branch]);
+    await this.restoreLargeFiles();
+    await this.execGit(['branch', '-D', branch]);
+
+    return { name, mainBranch, backupTag, removedBackups, savedChanges, head: await this.getCommit('HEAD') };
+  }
+
+  async deleteExperiment(name: string): Promise<ExperimentEntry> {
+    assertRefName(name, 'experiment');
+    await this.ensureInitialized();
+
+    const { mainBranch, experiments } = await this.listExperiments();
+    const experiment = experiments.find(entry => entry.name === name);
+    if (!experiment) {
+      throw new AIRewindError('NOT_FOUND', `Experiment '${name}' not found. Run "ai-rewind experiment list" to list experiments.`);
+    }
+    if (experiment.current) {
+      throw new AIRewindError('INVALID_ARGUMENT', `Experiment '${name}' is checked out; switch to ${mainBranch} first`);
+    }
+    await this.execGit(['branch', '-D', experiment.branch]);
+    return experiment;
+  }
+
+  async listIgnoreRules(): Promise<IgnoreList> {
+    const ignoreFile = readIgnoreFile(this.config.workTree);
+    const rules: IgnoreRule[] = this.configManager.excludePatterns.map((pattern, index) => ({
+      source: 'config',
+      file: 'excludePatterns',
+      line: index + 1,
+      pattern,
+      negated: false
+    }));
+    for (const entry of parseIgnoreFile(ignoreFile.content)) {
+      rules.push({ source: 'ignore-file', file: IGNORE_FILE, ...entry });
+    }
+    return { ignoreFile: ignoreFile.path, exists: ignoreFile.exists, rules };
+  }
+
+  // Appends patterns to .ai-rewindignore, optionally untracking files they now exclude
+  async addIgnorePatterns(patterns: string[], options: { untrack?: boolean } = {}): Promise<IgnoreAddResult> {
+    for (const pattern of patterns) {
+      if (typeof pattern !== 'string' || !pattern.trim() || /[\r\n]/.test(pattern)) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Invalid ignore pattern '${pattern}'`);
+      }
+    }
+    const ignoreFile = readIgnoreFile(this.config.workTree);
+    const present = new Set(parseIgnoreFile(ignoreFile.content).map(entry => entry.pattern));
+    const added = [...new Set(patterns.map(pattern => pattern.trim()))].filter(pattern => !present.has(pattern));
+
+    if (added.length > 0) {
+      let content = ignoreFile.exists
+        ? ignoreFile.content
+        : '# Paths AI Rewind never checkpoints (gitignore syntax)\n';
+      if (content.length > 0 && !content.endsWith('\n')) {
+        content += '\n';
+      }
+      writeFileSync(ignoreFile.path, `${content}${added.join('\n')}\n`);
+    }
+
+    return {
+      ignoreFile: ignoreFile.path,
+      added,
+      existing: patterns.filter(pattern => present.has(pattern.trim())),
+      untracked: options.untrack ? await this.untrackIgnored() : null
+    };
+  }
+
+  // Explains, for each path, which rule (if any) keeps it out of checkpoints
+  async checkIgnore(paths: string[]): Promise<IgnoreCheck[]> {
+    await this.ensureInitialized();
+    this.toPathspecs(paths);
+    this.writeExcludeFile();
+
+    const normalized = paths.map(path => path.replace(/\\/g, '/').replace(/^\.\//, ''));
+    // Exits 1 when nothing is ignored; --non-matching still lists every path then
+    const output = await this.execGit(['check-ignore', '--verbose', '--non-matching', '--no-index', '--stdin'], {
+      input: `${normalized.join('\n')}\n`
+    }).catch(() => '');
+    const matches = new Map<string, IgnoreRule>();
+    for (const line of output.split('\n')) {
+      const match = line.match(/^(.+):(\d+):(.*)\t(.*)$/);
+      if (match) {
+        matches.set(match[4], this.explainIgnored(match[1], parseInt(match[2]), match[3]));
+      }
+    }
+
+    const tracked = new Set(
+      (await this.execGit(['ls-files', '-z', '--', ...this.toPathspecs(normalized)])).split('\0').filter(Boolean)
+    );
+    return normalized.map(path => {
+      const rule = matches.get(path) ?? null;
+      return {
+        path,
+        ignored: rule !== null && !rule.negated,
+        tracked: tracked.has(path) || [...tracked].some(file => file.startsWith(`${path.replace(/\/$/, '')}/`)),
+        rule
+      };
+    });
+  }
+
+  // Removes files that ignore rules now exclude from the next checkpoint; they stay on disk
+  // and in earlier checkpoints
+  async untrackIgnored(options: { dryRun?: boolean } = {}): Promise<IgnoreUntrackResult> {
+    await this.ensureInitialized();
+    this.writeExcludeFile();
+
+    const files = (await this.execGit(['ls-files', '-z', '--cached', '--ignored', '--exclude-standard']))
+      .split('\0')
+      .filter(Boolean);
+    const result: IgnoreUntrackResult = { dryRun: !!options.dryRun, files, commit: null };
+    if (options.dryRun || files.length === 0) {
+      return result;
+    }
+
+    await this.execGit(['rm', '--cached', '-q', '--pathspec-from-file=-', '--pathspec-file-nul'], {
+      input: `${files.join('\0')}\0`
+    });
+    await this.writeCommit(`UNTRACK: ${files.length} ignored file(s)`, this.resolveMetadata({}));
+    result.commit = await this.getCommit('HEAD');
+    return result;
+  }
+
+  // Audits checkpoints already written: one revision, or everything reachable from any
+  // branch, tag or backup. Each secret is reported in the checkpoint that added it.
+  async scanHistory(revision?: string): Promise<SecretScanResult> {
+    await this.ensureInitialized();
+    const commits = revision
+      ? [(await this.resolveCheckpoint(revision)).hash]
+      : (await this.execGit(['rev-list', '--all', '--no-merges'])).split('\n').filter(Boolean);
+
+    const findings: SecretFinding[] = [];
+    for (const hash of commits) {
+      const scanner = new PatchScanner();
+      await this.streamGit(['show', '--format=', '--no-color', '--no-ext-diff', '--no-renames', '-U0', hash], line => scanner.push(line));
+      findings.push(...scanner.matches.map(match => toSecretFinding(match, false, hash)));
+    }
+    return { revision: revision ?? null, scannedCommits: commits.length, findings };
+  }
+
+  // Writes checkpoints to a git bundle. Without a range it holds every branch and tag
+  // (experiments, backups, named checkpoints); "A..B" holds the checkpoints after A up to
+  // branch B, the current one if omitted, plus the tags pointing at them
+  async exportBundle(output: string, range?: string): Promise<BundleExportResult> {
+    await this.ensureInitialized();
+    const path = resolve(output);
+
+    let revisions = ['--all'];
+    if (range) {
+      const dots = range.indexOf('..');
+      if (range.includes('...')) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Invalid range '${range}': use <from>..<branch>`);
+      }
+      const from = dots === -1 ? '' : range.slice(0, dots);
+      const branch = await this.resolveExportBranch(dots === -1 ? range : range.slice(dots + 2));
+      revisions = [`refs/heads/${branch}`, ...(from ? [`^${(await this.resolveCheckpoint(from)).hash}`] : [])];
+      const included = new Set((await this.execGit(['rev-list', ...revisions])).split('\n').filter(Boolean));
+      const tags = await this.execGit(['for-each-ref', '--format=%(refname) %(objectname) %(*objectname)', 'refs/tags']);
+      for (const line of tags.split('\n').filter(Boolean)) {
+        const [ref, object, peeled] = line.split(' ');
+        if (included.has(peeled || object)) {
+          revisions.push(ref);
+        }
+      }
+    }
+
+    const commits = parseInt(await this.execGit(['rev-list', '--count', ...revisions]));
+    if (commits === 0) {
+      throw new AIRewindError('INVALID_ARGUMENT', `No checkpoints in range '${range}'`);
+    }
+
+    // The extras are written to a scratch object directory, so the large file content is never
+    // copied into the tracking repository itself
+    const scratch = mkdtempSync(join(this.config.gitDir, 'bundle-'));
+    const env = { GIT_OBJECT_DIRECTORY: scratch, GIT_ALTERNATE_OBJECT_DIRECTORIES: join(this.config.gitDir, 'objects') };
+    try {
+      const extras = await this.writeBundleExtras(revisions, env);
+      await this.execGit(['bundle', 'create', '-q', path, ...revisions, ...(extras.ref ? [BUNDLE_EXTRAS_REF] : [])], { env });
+      return {
+        path,
+        range: range ?? null,
+        commits,
+        refs: (await this.readBundleHeads(path)).map(head => head.ref).filter(ref => ref !== BUNDLE_EXTRAS_REF),
+        largeFiles: extras.largeFiles,
+        pinnedBackups: extras.pinnedBackups,
+        size: statSync(path).size
+      };
+    } finally {
+      await this.execGit(['update-ref', '-d', BUNDLE_EXTRAS_REF]).catch(() => '');
+      rmSync(scratch, { recursive: true, force: true });
+    }
+  }
+
+  // Points BUNDLE_EXTRAS_REF at a commit holding the stored content of the large files the
+  // exported checkpoints list (large-files/<sha256>) and the pins of exported backups
+  // (pinned-backups); no ref when there is neither
+  private async writeBundleExtras(
+    revisions: string[],
+    env: Record<string, string>
+  ): Promise<{ ref: boolean; largeFiles: { objects: number; bytes: number }; pinnedBackups: string[] }> {
+    const values = await this.execGit(['log', `--format=%(trailers:key=${LARGE_FILE_TRAILER},valueonly)`, ...revisions]);
+    const hashes = new Set(parseLargeFileTrailers(values).flatMap(entry => (entry.hash && this.largeFileStore.has(entry.hash) ? [entry.hash] : [])));
+    const largeFiles = { objects: 0, bytes: 0 };
+    const blobs: string[] = [];
+    for (const hash of hashes) {
+      const objectPath = this.largeFileStore.objectPath(hash);
+      const blob = (await this.execGit(['hash-object', '-w', '--no-filters', objectPath], { env })).trim();
+      blobs.push(`100644 blob ${blob}\t${hash}\n`);
+      largeFiles.objects++;
+      largeFiles.bytes += statSync(objectPath).size;
+    }
+
+    const stored = (await this.execGit(['config', '--get-all', 'ai-rewind.pinnedBackup']).catch(() => '')).split('\n').filter(Boolean);
+    const pinnedBackups: string[] = [];
+    for (const tag of stored) {
+      const bundled = revisions[0] === '--all' ? await this.refExists(`refs/tags/${tag}`) : revisions.includes(`refs/tags/${tag}`);
+      if (bundled) {
+        pinnedBackups.push(tag);
+      }
+    }
+
+    const entries: string[] = [];
+    if (blobs.length > 0) {
+      const tree = (await this.execGit(['mktree'], { input: blobs.join(''), env })).trim();
+      entries.push(`040000 tree ${tree}\tlarge-files\n`);
+    }
+    if (pinnedBackups.length > 0) {
+      const blob = (await this.execGit(['hash-object', '-w', '--stdin'], { input: `${pinnedBackups.join('\n')}\n`, env })).trim();
+      entries.push(`100644 blob ${blob}\tpinned-backups\n`);
+    }
+    if (entries.length === 0) {
+      return { ref: false, largeFiles, pinnedBackups };
+    }
+    const tree = (await this.execGit(['mktree'], { input: entries.join(''), env })).trim();
+    const commit = (await this.execGit(['commit-tree', tree, '-m', 'Bundle extras'], { env })).trim();
+    await this.execGit(['update-ref', BUNDLE_EXTRAS_REF, commit], { env });
+    return { ref: true, largeFiles, pinnedBackups };
+  }
+
+  // Copies the large file content and pins written by writeBundleExtras; pins only apply to
+  // the tags this import added
+  private async readBundleExtras(path: string, result: BundleImportResult): Promise<void> {
+    const scratch = mkdtempSync(join(this.config.gitDir, 'bundle-'));
+    const env = { GIT_OBJECT_DIRECTORY: scratch, GIT_ALTERNATE_OBJECT_DIRECTORIES: join(this.config.gitDir, 'objects') };
+    try {
+      await this.execGit(['fetch', '-q', '--no-tags', path, `${BUNDLE_EXTRAS_REF}:${BUNDLE_EXTRAS_REF}`], { env });
+      const files = await this.execGit(['ls-tree', '-z', BUNDLE_EXTRAS_REF, 'large-files/'], { env });
+      for (const line of files.split('\0').filter(Boolean)) {
+        const [info, name] = line.split('\t');
+        const hash = basename(name);
+        if (!/^[0-9a-f]{64}$/.test(hash) || this.largeFileStore.has(hash)) {
+          continue;
+        }
+        const content = join(scratch, hash);
+        await this.writeBlob(info.split(' ')[2], content, env);
+        this.largeFileStore.add(content, hash);
+        rmSync(content);
+        result.largeFiles++;
+      }
+
+      const pins = await this.execGit(['cat-file', 'blob', `${BUNDLE_EXTRAS_REF}:pinned-backups`], { env }).catch(() => '');
+      for (const tag of pins.split('\n').filter(tag => result.tags.includes(tag))) {
+        await this.setPinned(tag, true);
+        result.pinnedBackups.push(tag);
+      }
+    } finally {
+      await this.execGit(['update-ref', '-d', BUNDLE_EXTRAS_REF]).catch(() => '');
+      rmSync(scratch, { recursive: true, force: true });
+    }
+  }
+
+  // Streams a blob to a file; large file content can be far bigger than execGit's buffer
+  private async writeBlob(object: string, destination: string, env: Record<string, string>): Promise<void> {
+    const fd = openSync(destination, 'w');
+    try {
+      await execa('git', [`--git-dir=${this.config.gitDir}`, 'cat-file', 'blob', object], {
+        shell: false,
+        stdout: fd,
+        env,
+        cwd: this.config.workTree
+      });
+    } catch (error) {
+      throw new AIRewindError('GIT_ERROR', `Git operation failed: ${(error as ExecaError).stderr || (error as ExecaError).shortMessage}`);
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  // End of an export range: HEAD or nothing for the current branch, otherwise the main
+  // branch or an experiment by name
+  private async resolveExportBranch(name: string): Promise<string> {
+    if (!name || name === 'HEAD') {
+      const current = await this.getCurrentBranch();
+      if (!current) {
+        throw new AIRewindError('INVALID_ARGUMENT', 'HEAD is detached; name the branch to export up to');
+      }
+      return current;
+    }
+    return this.resolveBranch(name, await this.getMainBranch());
+  }
+
+  // Reads a bundle written by exportBundle. A project without a tracking repository gets the
+  // bundle's history as its own (working files are left alone); otherwise the bundle's
+  // branches arrive as experiments named after options.as (default: the file name) and
+  // its tags are added unless a tag of the same name already exists
+  async importBundle(input: string, options: { as?: string } = {}): Promise<BundleImportResult> {
+    const path = resolve(input);
+    if (!existsSync(path)) {
+      throw new AIRewindError('NOT_FOUND', `Bundle '${input}' not found`);
+    }
+
+    const restored = !(await this.isInitialized());
+    if (restored) {
+      await this.createRepository();
+    }
+    try {
+      await this.execGit(['bundle', 'verify', path]);
+    } catch (error) {
+      if (restored) {
+        rmSync(this.config.gitDir, { recursive: true, force: true });
+      }
+      // A range export only holds the checkpoints after its start
+      const missing = (error as Error).message.match(/prerequisite commits:\s*(?:error: )?([0-9a-f]{7})/);
+      const reason = missing
+        ? `it continues from checkpoint ${missing[1]}, which this repository doesn't have. Export the full history or an earlier range instead.`
+        : (error as Error).message.replace(/^Git operation failed: /, '');
+      throw new AIRewindError('INVALID_ARGUMENT', `Cannot import '${input}': ${reason}`);
+    }
+
+    const heads = await this.readBundleHeads(path);
+    const branches = heads.filter(head => head.ref.startsWith('refs/heads/')).map(head => head.ref.slice('refs/heads/'.length));
+    const bundleMain = branches.includes(this.configManager.defaultBranch)
+      ? this.configManager.defaultBranch
+      : branches.find(branch => !branch.startsWith('experiment/')) ?? branches[0];
+    const result: BundleImportResult = {
+      path,
+      restored,
+      branches: [],
+      tags: [],
+      skippedTags: [],
+      commits: 0,
+      largeFiles: 0,
+      pinnedBackups: [],
+      head: null
+    };
+
+    const name = options.as ?? basename(path).replace(/\.[^.]*$/, '').replace(/[^A-Za-z0-9._-]+/g, '-');
+    if (!restored) {
+      assertRefName(name, 'experiment');
+    }
+    const refspecs: string[] = [];
+    for (const branch of branches) {
+      let target = branch;
+      if (!restored) {
+        target = `experiment/${branch === bundleMain ? name : `${name}-${branch.split('/').pop()}`}`;
+        if (await this.refExists(`refs/heads/${target}`)) {
+          throw new AIRewindError('ALREADY_EXISTS', `Experiment '${target.slice('experiment/'.length)}' already exists. Choose another name with --as.`);
+        }
+      }
+      refspecs.push(`refs/heads/${branch}:refs/heads/${target}`);
+      result.branches.push({ from: branch, to: target });
+    }
+    for (const head of heads.filter(head => head.ref.startsWith('refs/tags/'))) {
+      const tag = head.ref.slice('refs/tags/'.length);
+      const existing = await this.execGit(['rev-parse', '--verify', '--quiet', head.ref]).catch(() => '');
+      if (!existing) {
+        refspecs.push(`${head.ref}:${head.ref}`);
+        result.tags.push(tag);
+      } else if (existing.trim() !== head.object) {
+        result.skippedTags.push(tag);
+      }
+    }
+
+    const countCommits = async () => parseInt(await this.execGit(['rev-list', '--all', '--count']).catch(() => '0')) || 0;
+    const before = await countCommits();
+    if (refspecs.length > 0) {
+      await this.execGit(['fetch', '-q', '--no-tags', '--update-head-ok', path, ...refspecs]);
+    }
+    result.commits = (await countCommits()) - before;
+    if (heads.some(head => head.ref === BUNDLE_EXTRAS_REF)) {
+      await this.readBundleExtras(path, result);
+    }
+
+    if (restored && bundleMain) {
+      // Index follows the imported checkpoint, so status shows how the files differ from it
+      await this.execGit(['symbolic-ref', 'HEAD', `refs/heads/${bundleMain}`]);
+      await this.execGit(['reset', '-q']);
+      result.head = await this.getCommit('HEAD');
+    }
+    return result;
+  }
+
+  // "<object> <ref>" lines from the bundle header
+  private async readBundleHeads(path: string): Promise<{ ref: string; object: string }[]> {
+    return (await this.execGit(['bundle', 'list-heads', path]))
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [object, ref] = line.split(' ');
+        return { ref, object };
+      })
+      .filter(head => head.ref !== 'HEAD');
+  }
+
+  async listRestorePoints(limit: number = 50): Promise<RestorePoint[]> {
+    await this.ensureInitialized();
+
+    const points: RestorePoint[] = (await this.getLog(['--first-parent', '-n', limit.toString()]))
+      .map((commit, count) => ({ kind: 'checkpoint', commit, count }));
+    for (const backup of await this.listBackups()) {
+      if (backup.commit) {
+        points.push({ kind: 'backup', tag: backup.tag, commit: backup.commit });
+      }
+    }
+    return points;
+  }
+
+  async previewRestore(revision: string): Promise<RestorePreview> {
+    await this.ensureInitialized();
+
+    return {
+      revision,
+      files: await this.getFileChanges('HEAD', revision),
+      stat: await this.execGit(['diff', '--stat', 'HEAD', revision])
+    };
+  }
+
+  // Without arguments: uncommitted changes. With one point: that checkpoint's own changes. With
+  // two: everything between them. Points are commits, backup tags, named checkpoints or experiments.
+  // sinceMainCommit compares the main repository's current commit with the latest checkpoint,
+  // limited to the files checkpoints taken on that commit touched: the AI work since the last
+  // human commit
+  async diff(from?: string, options: DiffOptions = {}): Promise<DiffResult> {
+    await this.ensureInitialized();
+    const format = options.format ?? 'patch';
+    const formatArgs = DIFF_FORMAT_ARGS[format];
+    const pathspecs = options.paths?.length ? ['--', ...options.paths] : [];
+
+    if (options.sinceMainCommit) {
+      if (from || options.to) {
+        throw new AIRewindError('INVALID_ARGUMENT', 'Give either a commit or --since-main-commit, not both');
+      }
+      const main = await this.getMainRepoState();
+      if (!main) {
+        throw new AIRewindError('NOT_FOUND', 'No main git repository with commits to compare against');
+      }
+      const checkpoints: CommitEntry[] = [];
+      for (const commit of await this.getLog(['--first-parent'])) {
+        if (commit.main?.head !== main.head) {
+          break;
+        }
+        checkpoints.push(commit);
+      }
+      const result: DiffResult = { format, patch: '', sinceMainCommit: { head: main.head, checkpoints } };
+      if (checkpoints.length === 0) {
+        return result;
+      }
+
+      const first = checkpoints[checkpoints.length - 1];
+      const parent = (await this.execGit(['rev-parse', '--verify', '--quiet', `${first.hash}^`]).catch(() => '')).trim() || EMPTY_TREE;
+      // Path filters narrow the touched files rather than widening them
+      const paths = (await this.execGit(['diff', '--name-only', '-z', '--no-renames', parent, 'HEAD', ...pathspecs])).split('\0').filter(Boolean);
+      if (paths.length > 0) {
+        const prefix = (await this.execMainGit(['rev-parse', '--show-prefix'])).trim();
+        const objects = resolve(this.config.workTree, (await this.execMainGit(['rev-parse', '--git-path', 'objects'])).trim());
+        // The main repository's objects are borrowed for this one command, never linked for good
+        result.patch = await this.execGit(
+          ['diff', ...formatArgs, prefix ? `${main.head}:${prefix}` : main.head, 'HEAD', '--', ...paths.map(path => `:(literal)${path}`)],
+          { env: { GIT_ALTERNATE_OBJECT_DIRECTORIES: objects } }
+        );
+      }
+      return result;
+    }
+    if (options.to) {
+      if (!from) {
+        throw new AIRewindError('INVALID_ARGUMENT', 'Give the point to compare from as well as the one to compare to');
+      }
+      const [fromHash, toHash] = [await this.resolveDiffPoint(from), await this.resolveDiffPoint(options.to)];
+      return { from, to: options.to, format, patch: await this.execGit(['diff', ...formatArgs, fromHash, toHash, ...pathspecs]) };
+    }
+    if (from) {
+      const hash = await this.resolveDiffPoint(from);
+      // The commit header is left out when only paths are wanted
+      const header = format === 'name-only' ? ['--format='] : [];
+      return { commit: hash, format, patch: await this.execGit(['show', ...header, ...formatArgs, hash, ...pathspecs]) };
+    }
+    return { format, patch: await this.execGit(['diff', ...formatArgs, 'HEAD', ...pathspecs]) };
+  }
+
+  async stats(filter: CommitFilter = {}): Promise<StatsResult> {
+    await this.ensureInitialized();
+    const store = this.largeFileStore.usage();
+    const unreferenced = this.largeFileStore.collect(await this.referencedLargeFiles(), true);
 
-    try {
-      if (await this.isInitialized()) {
-        spinner.fail('AI tracking repository already exists!');
-        throw new Error('Repository already initialized. To reinitialize, first delete .git-ai-tracking directory');
-      }
+    // Newest first; limited to the requested agent/session when filtering
+    const history = await this.getLog([]);
+    const commits = history.filter(commit => this.matchesFilter(commit, filter));
+    const lastCommit = commits[0];
 
-      // Check for existing Git repository
-      const mainGitDir = join(this.config.workTree, '.git');
-      if (existsSync(mainGitDir)) {
-        spinner.info(chalk.yellow('Detected existing Git repository'));
-        console.log(chalk.cyan('AI Rewind will operate independently from your main Git repository'));
-        console.log(chalk.gray('The .git-ai-tracking directory will be added to .gitignore'));
+    // Get file change statistics
+    const filesChangedCount = lastCommit
+      ? (await this.getFileChanges(`${lastCommit.hash}~1`, lastCommit.hash).catch(() => [])).length
+      : 0;
+    
+    // Get total files tracked
+    const trackedFiles = await this.execGit(['ls-files']);
+    const trackedCount = trackedFiles.split('\n').filter(Boolean).length;
+    
+    // Get top changed files
+    const topFiles = commits.length > 0
+      ? await this.execGit(['log', '--no-walk=unsorted', '--stdin', '--pretty=format:', '--name-only'], {
+          input: commits.map(commit => commit.hash).join('\n')
+        }).catch(() => '')
+      : '';
+    
+    const fileFrequency: Record<string, number> = {};
+    for (const file of topFiles.split('\n').filter(Boolean)) {
+      fileFrequency[file] = (fileFrequency[file] || 0) + 1;
+    }
+    
+    const sortedFiles = Object.entries(fileFrequency)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([path, changes]) => ({ path, changes }));
+
+    const agentFrequency: Record<string, number> = {};
+    for (const commit of commits) {
+      if (commit.metadata.agent) {
+        agentFrequency[commit.metadata.agent] = (agentFrequency[commit.metadata.agent] || 0) + 1;
       }
+    }
 
-      // Initialize repository
-      await this.execGit(['init']);
-      spinner.text = 'Configuring tracking repository...';
-
-      // Configure git
-      await this.execGit(['config', 'user.name', 'AI Assistant']);
-      await this.execGit(['config', 'user.email', 'ai@local']);
-      
-      // Set core.autocrlf based on platform
-      const autocrlf = process.platform === 'win32' ? 'true' : 'input';
-      await this.execGit(['config', 'core.autocrlf', autocrlf]);
+    return {
+      totalCommits: commits.length,
+      filesTracked: trackedCount,
+      repositorySizeBytes: await this.getRepositorySize(),
+      firstCommitDate: commits.length > 0 ? commits[commits.length - 1].date : '',
+      lastCommitDate: lastCommit?.date ?? '',
+      filesChangedInLastCommit: filesChangedCount,
+      topFiles: sortedFiles,
+      agents: Object.entries(agentFrequency)
+        .sort((a, b) => b[1] - a[1])
+        .map(([agent, count]) => ({ agent, commits: count })),
+      filter,
+      config: {
+        configFilePresent: existsSync(join(this.config.workTree, '.ai-rewind.json')),
+        autoCommitThreshold: this.configManager.autoCommitThreshold,
+        maxCommits: this.configManager.maxCommits
+      },
+      compaction: await this.getCompactionStats(),
+      largeFiles: {
+        maxFileSize: this.configManager.maxFileSize,
+        policy: this.configManager.binaryPolicy,
+        files: await this.readLargeFiles('HEAD'),
+        storedObjects: store.objects,
+        storedBytes: store.bytes,
+        unreferencedObjects: unreferenced.objects,
+        unreferencedBytes: unreferenced.bytes
+      }
+    };
+  }
 
-      // Add to .gitignore BEFORE staging files
-      spinner.text = 'Updating .gitignore...';
-      this.updateGitignore();
-      
-      spinner.text = 'Creating initial commit...';
-      
-      // Stage all files (except .git-ai-tracking which is now in .gitignore)
-      await this.execGit(['add', '-A']);
-      
-      // Create initial commit
-      await this.execGit(['commit', '-m', 'Initial state before AI changes', '--allow-empty']);
+  async compact(options: { force?: boolean } = {}): Promise<CompactionResult | null> {
+    await this.ensureInitialized();
 
-      // Run git gc to clean up
-      await this.execGit(['gc', '--auto']);
+    const maxCommits = this.configManager.maxCommits;
+    const mainline = (await this.execGit(['rev-list', '--first-parent', '--reverse', 'HEAD']))
+      .split('\n')
+      .filter(Boolean);
 
-      spinner.succeed(chalk.green('✓ AI tracking repository initialized successfully!'));
-      
-      console.log('\n' + chalk.cyan('Available commands:'));
-      console.log('  ai-rewind commit [message]  - Save current changes');
-      console.log('  ai-rewind rollback [count]  - Revert last AI change(s)');
-      console.log('  ai-rewind log [count]       - View change history');
-      console.log('  ai-rewind status            - Check current status');
-    } catch (error) {
-      spinner.fail('Failed to initialize tracking repository');
-      throw error;
+    // Compact in batches so the rewrite and gc don't run on every single commit
+    const slack = options.force ? 0 : Math.ceil(maxCommits / 10);
+    if (mainline.length <= maxCommits + slack) {
+      return null;
     }
-  }
 
-  private updateGitignore(): void {
-    const gitignorePath = this.config.ignoreFile;
-    const trackingDirEntry = '.git-ai-tracking/';
-    
-    let content = '';
-    if (existsSync(gitignorePath)) {
-      content = readFileSync(gitignorePath, 'utf-8');
+    // History rewriting only makes sense on a branch
+    const currentBranch = await this.execGit(['symbolic-ref', '-q', 'HEAD']).catch(() => '');
+    if (!currentBranch) {
+      return null;
     }
 
-    if (!content.includes(trackingDirEntry)) {
-      const newContent = content.length > 0 && !content.endsWith('\n') 
-        ? `${content}\n\n# AI Change Tracking\n${trackingDirEntry}\n`
-        : `${content}\n# AI Change Tracking\n${trackingDirEntry}\n`;
-      
-      writeFileSync(gitignorePath, newContent);
+    // Keep the newest maxCommits - 1 checkpoints on top of one base snapshot
+    const folded = mainline.slice(0, mainline.length - (maxCommits - 1));
+    const lastFolded = folded[folded.length - 1];
+    const sizeBefore = await this.getRepositorySize();
+
+    // Every branch and tag is carried over so backups stay restorable
+    const refLines = await this.execGit([
+      'for-each-ref',
+      '--format=%(refname)%09%(objecttype)%09%(objectname)%09%(*objecttype)%09%(*objectname)',
+      'refs/heads',
+      'refs/tags'
+    ]);
+    const refs = refLines
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [name, type, object, peeledType, peeled] = line.split('\t');
+        return { name, annotated: type === 'tag', target: type === 'tag' ? peeled : object, isCommit: type === 'commit' || peeledType === 'commit' };
+      })
+      .filter(ref => ref.isCommit);
+
+    const roots = [...new Set(refs.map(ref => ref.target))];
+    const rewritten = await this.readCommits([...roots, '--not', lastFolded]);
+    const rewrittenSet = new Set(rewritten.map(commit => commit.hash));
+
+    // Refs pointing into the folded range keep their snapshot as a commit on top of the base
+    const foldedTargets = roots.filter(hash => !rewrittenSet.has(hash) && hash !== lastFolded);
+    const foldedCommits = foldedTargets.length > 0 ? await this.readCommits(['--no-walk', ...foldedTargets]) : [];
+    const [baseSource] = await this.readCommits(['--no-walk', lastFolded]);
+
+    const marks = new Map<string, number>();
+    let nextMark = 1;
+    let stream = '';
+    const scratchRef = 'refs/ai-rewind/compact';
+    const addCommit = (commit: RawCommit, message: string, parents: number[]): number => {
+      const mark = nextMark++;
+      const body = Buffer.byteLength(message);
+      stream += `commit ${scratchRef}\nmark :${mark}\nauthor ${commit.author}\ncommitter ${commit.committer}\ndata ${body}\n${message}\n`;
+      if (parents.length > 0) {
+        stream += `from :${parents[0]}\n`;
+        for (const parent of parents.slice(1)) {
+          stream += `merge :${parent}\n`;
+        }
+      }
+      stream += `M 040000 ${commit.tree} ""\n\n`;
+      return mark;
+    };
+
+    const baseMark = addCommit(baseSource, `Base snapshot (${folded.length} older checkpoints compacted)\n`, []);
+    marks.set(lastFolded, baseMark);
+    for (const commit of foldedCommits) {
+      marks.set(commit.hash, addCommit(commit, commit.message, [baseMark]));
+    }
+    for (const commit of rewritten) {
+      // Parents outside the rewritten set were folded into the base
+      const parents = [...new Set(commit.parents.map(parent => marks.get(parent) ?? baseMark))];
+      marks.set(commit.hash, addCommit(commit, commit.message, parents));
     }
-  }
 
-  async commit(message?: string): Promise<void> {
-    // Validate commit message
-    if (message) {
-      if (typeof message !== 'string') {
-        throw new Error('Commit message must be a string');
+    const remappedRefs: string[] = [];
+    for (const ref of refs) {
+      const mark = marks.get(ref.target);
+      if (mark === undefined) {
+        continue;
       }
-      if (message.length > 1000) {
-        throw new Error('Commit message too long (max 1000 characters)');
+      if (ref.annotated) {
+        const tagName = ref.name.replace(/^refs\/tags\//, '');
+        const rawTag = await this.execGit(['cat-file', 'tag', ref.name]);
+        const separator = rawTag.indexOf('\n\n');
+        const header = rawTag.slice(0, separator);
+        const tagMessage = `${rawTag.slice(separator + 2)}\n`;
+        const tagger = header.split('\n').find(line => line.startsWith('tagger '));
+        stream += `tag ${tagName}\nfrom :${mark}\n${tagger ? `${tagger}\n` : ''}data ${Buffer.byteLength(tagMessage)}\n${tagMessage}\n`;
+      } else {
+        stream += `reset ${ref.name}\nfrom :${mark}\n\n`;
       }
-      // Remove any control characters
-      message = message.replace(/[\x00-\x1F\x7F]/g, '');
+      remappedRefs.push(ref.name);
     }
-    
-    const spinner = ora('Checking for changes...').start();
 
-    try {
-      if (!(await this.isInitialized())) {
-        spinner.fail('AI tracking repository not initialized!');
-        throw new Error('Please run "ai-rewind init" first');
-      }
+    await this.execGit(['update-ref', '-d', scratchRef]).catch(() => '');
+    await this.execGit(['fast-import', '--quiet', '--force'], { input: stream });
+    await this.execGit(['update-ref', '-d', scratchRef]);
+
+    // Drop the old objects for real so the space is actually reclaimed
+    await this.execGit(['reflog', 'expire', '--expire=now', '--all']);
+    await this.execGit(['gc', '--prune=now', '--quiet']);
+
+    const reclaimedBytes = Math.max(0, sizeBefore - (await this.getRepositorySize()));
+    const largeFiles = this.largeFileStore.collect(await this.referencedLargeFiles());
+    const previous = await this.getCompactionStats();
+    await this.execGit(['config', 'ai-rewind.compactions', String(previous.compactions + 1)]);
+    await this.execGit(['config', 'ai-rewind.foldedCommits', String(previous.foldedCommits + folded.length)]);
+    await this.execGit(['config', 'ai-rewind.reclaimedBytes', String(previous.reclaimedBytes + reclaimedBytes + largeFiles.bytes)]);
+
+    return {
+      foldedCommits: folded.length,
+      rewrittenCommits: rewritten.length,
+      baseCommit: await this.execGit(['rev-parse', `${currentBranch}~${maxCommits - 1}`]),
+      remappedRefs,
+      reclaimedBytes,
+      largeFiles
+    };
+  }
 
-      // Check for changes
-      const status = await this.execGit(['status', '--porcelain']);
-      
-      if (!status.trim()) {
-        spinner.info('No changes detected to commit.');
-        console.log('No changes detected');
-        return;
-      }
+  private async readCommits(revisionArgs: string[]): Promise<RawCommit[]> {
+    const output = await this.execGit([
+      'log',
+      '--reverse',
+      '--topo-order',
+      '--date=raw',
+      // <> are spelled as hex escapes because execGit rejects them in arguments
+      '--format=%H%x1f%P%x1f%T%x1f%an %x3c%ae%x3e %ad%x1f%cn %x3c%ce%x3e %cd%x1f%B%x1e',
+      ...revisionArgs
+    ]);
+    return output
+      .split('\x1e')
+      .map(entry => entry.replace(/^\n/, ''))
+      .filter(entry => entry.trim())
+      .map(entry => {
+        const [hash, parents, tree, author, committer, message] = entry.split('\x1f');
+        return { hash, parents: parents ? parents.split(' ') : [], tree, author, committer, message };
+      });
+  }
 
-      spinner.text = 'Analyzing changes...';
-      
-      // Count files to be staged for progress indicator
-      const statusOutput = await this.execGit(['status', '--porcelain']);
-      const changedFiles = statusOutput.split('\n').filter(line => line.trim()).length;
-      
-      if (changedFiles > 50) {
-        spinner.text = `Staging ${changedFiles} files (this may take a moment)...`;
-      } else {
-        spinner.text = 'Staging all changes...';
-      }
-      
-      // Get exclude patterns from config and create .gitignore entries
-      const excludePatterns = this.configManager.excludePatterns;
-      const excludePath = join(this.config.gitDir, 'info', 'exclude');
-      
-      // Ensure the info directory exists
-      const infoDir = join(this.config.gitDir, 'info');
-      if (!existsSync(infoDir)) {
-        mkdirSync(infoDir, { recursive: true });
-      }
-      
-      // Write exclude patterns to git's exclude file
-      if (excludePatterns.length > 0) {
-        const excludeContent = excludePatterns.join('\n');
-        writeFileSync(excludePath, excludeContent, 'utf-8');
-      }
-      
-      await this.execGit(['add', '-A']);
-      
-      if (changedFiles > 50) {
-        spinner.text = `Committing ${changedFiles} files...`;
-      }
+  private async getRepositorySize(): Promise<number> {
+    const counts = await this.execGit(['count-objects', '-v']);
+    const loose = counts.match(/^size: (\d+)/m);
+    const packed = counts.match(/^size-pack: (\d+)/m);
+    return ((loose ? parseInt(loose[1]) : 0) + (packed ? parseInt(packed[1]) : 0)) * 1024;
+  }
 
-      // Generate commit message if not provided
-      if (!message) {
-        message = this.configManager.formatCommitMessage();
-      }
+  private async getCompactionStats(): Promise<{ compactions: number; foldedCommits: number; reclaimedBytes: number }> {
+    const read = async (key: string) => parseInt(await this.execGit(['config', '--get', key]).catch(() => '0')) || 0;
+    return {
+      compactions: await read('ai-rewind.compactions'),
+      foldedCommits: await read('ai-rewind.foldedCommits'),
+      reclaimedBytes: await read('ai-rewind.reclaimedBytes')
+    };
+  }
 
-      spinner.text = `Creating commit: ${message}`;
-      await this.execGit(['commit', '-m', message]);
+  async init(): Promise<InitResult> {
+    const result = await this.initialize();
+    this.configManager.createDefault();
+    return result;
+  }
 
-      // Run git gc periodically to clean up
-      const commitCount = await this.execGit(['rev-list', '--count', 'HEAD']);
-      if (parseInt(commitCount) % 10 === 0) {
-        await this.execGit(['gc', '--auto']);
-      }
+  private async createBackupTag(revision: string = 'HEAD'): Promise<string> {
+    const backupTag = `backup-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await this.execGit(['tag', backupTag, revision]);
+    return backupTag;
+  }
 
-      spinner.succeed(chalk.green('✓ Changes committed successfully!'));
-      
-      // Show recent commits
-      console.log('\n' + chalk.cyan('Latest commits:'));
-      const log = await this.execGit(['log', '--format=%C(yellow)%h%C(reset) - %C(cyan)%ad%C(reset) - %s', '--date=short', '-5']);
-      console.log(log);
-    } catch (error) {
-      spinner.fail('Failed to commit changes');
-      throw error;
+  private async applyBackupRetention(): Promise<string[]> {
+    try {
+      return (await this.pruneBackups()).removed.map(removal => removal.tag);
+    } catch {
+      // Cleanup is not critical
+      return [];
     }
   }
 
-  async rollback(count: number = 1, options: { force?: boolean; dryRun?: boolean; noConfirm?: boolean } = {}): Promise<void> {
-    // Validate input
-    if (!Number.isInteger(count) || count < 1) {
-      throw new Error('Rollback count must be a positive integer');
+  // Pins made with `backups pin` live in the shadow repo's git config, so rolling back
+  // (which may rewrite .ai-rewind.json) never drops them; pinnedBackups adds to them
+  private async getPinnedBackups(): Promise<string[]> {
+    const stored = await this.execGit(['config', '--get-all', 'ai-rewind.pinnedBackup']).catch(() => '');
+    return [...new Set([...this.configManager.pinnedBackups, ...stored.split('\n').filter(Boolean)])];
+  }
+
+  private async setPinned(tag: string, pinned: boolean): Promise<void> {
+    // Exit code 5 just means there was nothing to unset
+    await this.execGit(['config', '--fixed-value', '--unset-all', 'ai-rewind.pinnedBackup', tag]).catch(() => '');
+    if (pinned) {
+      await this.execGit(['config', '--add', 'ai-rewind.pinnedBackup', tag]);
     }
+  }
 
-    const spinner = ora('Checking commit history...').start();
+  private async findBackup(tag: string): Promise<BackupEntry> {
+    const backup = (await this.listBackups()).find(entry => entry.tag === tag);
+    if (!backup) {
+      throw new AIRewindError('NOT_FOUND', `Backup '${tag}' not found. Run "ai-rewind backups" to list available backups.`);
+    }
+    return backup;
+  }
 
-    try {
-      if (!(await this.isInitialized())) {
-        spinner.fail('AI tracking repository not initialized!');
-        throw new Error('Please run "ai-rewind init" first');
+  // Restores paths, directories or globs (e.g. `src/**/*.ts`) to a checkpoint,
+  // recreating files deleted since and deleting files created since
+  async rollbackFiles(patterns: string[], options: FileRollbackOptions = {}): Promise<FileRollbackResult> {
+    if (!Array.isArray(patterns) || patterns.length === 0) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Specify at least one file, directory or glob');
+    }
+    const pathspecs = this.toPathspecs(patterns);
+
+    await this.ensureInitialized();
+
+    // Default to previous commit if not specified
+    const commit = options.commit || 'HEAD~1';
+    const target = await this.resolveCheckpoint(commit);
+
+    // The working tree compared against the target, plus files git doesn't track yet
+    const diff = await this.execGit(['diff', '--name-status', '--no-renames', target.hash, '--', ...pathspecs]);
+    const untracked = await this.execGit(['ls-files', '--others', '--exclude-standard', '--', ...pathspecs]);
+    // Binary and large files never reach the index, so git can't compare them: they come back
+    // from the large-file store when the target stored them and are otherwise left alone
+    const largeFiles = new Set((await this.scanLargeFiles()).map(entry => entry.path));
+    const targetLargeFiles = (await this.readLargeFiles(target.hash)).filter(entry => patterns.some(pattern => matchesFilePattern(entry.path, pattern)));
+    const keep = new Set([...largeFiles, ...targetLargeFiles.map(entry => entry.path)]);
+
+    const files: FileRestoreEntry[] = [];
+    for (const line of diff.split('\n').filter(Boolean)) {
+      const [code, path] = line.split('\t');
+      if (!keep.has(path)) {
+        files.push({ path, action: code === 'A' ? 'delete' : code === 'D' ? 'recreate' : 'restore' });
       }
-
-      // Check commit count
-      const commitCount = parseInt(await this.execGit(['rev-list', '--count', 'HEAD']));
-      
-      if (commitCount <= 1) {
-        spinner.fail('No AI changes to roll back (only initial commit exists)');
-        console.log('Cannot rollback: only initial commit exists');
-        return;
-      }
-
-      if (count >= commitCount) {
-        spinner.fail(`Cannot roll back ${count} commits (only ${commitCount - 1} AI changes exist)`);
-        console.log(`Cannot roll back ${count} commits (only ${commitCount - 1} AI changes exist)`);
-        return;
-      }
-
-      // Show current history
-      spinner.text = 'Current change history:';
-      const currentLog = await this.execGit(['log', '--format=%h - %ad - %s', '--date=short', '-5']);
-      console.log('\n' + chalk.cyan('Current history:'));
-      console.log(currentLog);
-
-      // Check for uncommitted changes in shadow repo
-      const status = await this.execGit(['status', '--porcelain']);
-      if (status.trim() && !options.force) {
-        spinner.warn(chalk.yellow('Warning: You have uncommitted changes that will be lost!'));
-        console.log('Warning: You have uncommitted changes that will be lost!');
-        console.log('Please commit or stash your changes before rolling back.');
-        console.log('Or use --force to rollback anyway (changes will be lost).');
-        return;
-      }
-
-      // Check for main git repo conflicts
-      const mainGitPath = join(this.config.workTree, '.git');
-      if (existsSync(mainGitPath)) {
-        try {
-          const { stdout: mainStatus } = await execa('git', ['status', '--porcelain'], { cwd: this.config.workTree });
-          if (mainStatus.trim()) {
-            spinner.warn(chalk.yellow('Warning: Main git repository has uncommitted changes!'));
-            console.log('\n' + chalk.yellow('⚠ Warning: Your main git repository has uncommitted changes.'));
-            console.log('Rolling back AI changes may conflict with your uncommitted work.');
-            console.log('\nOptions:');
-            console.log('1. Commit your main git changes first: ' + chalk.cyan('git add . && git commit'));
-            console.log('2. Stash your changes: ' + chalk.cyan('git stash'));
-            console.log('3. Use --force to proceed anyway (risky)');
-            
-            if (!options.force) {
-              spinner.fail('Aborted due to main git conflicts');
-              return;
-            }
-            console.log(chalk.yellow('\nProceeding with --force flag...'));
-          }
-        } catch (error) {
-          // Main git command failed - repo might be in bad state but continue
-          console.log(chalk.gray('Note: Could not check main git status'));
-        }
+    }
+    for (const path of untracked.split('\n').filter(path => path && !keep.has(path))) {
+      files.push({ path, action: 'delete' });
+    }
+    const stored: { path: string; hash: string }[] = [];
+    for (const { path, policy, hash } of targetLargeFiles) {
+      if (policy !== 'store' || !hash || !this.largeFileStore.has(hash)) {
+        continue;
       }
-
-      if (options.dryRun) {
-        spinner.info('Dry run mode - no changes will be made');
-        console.log(chalk.yellow(`\nWould rollback ${count} commit(s):`));
-        const targetCommit = await this.execGit(['rev-parse', `HEAD~${count}`]);
-        const targetLog = await this.execGit(['log', '--format=%h - %ad - %s', '--date=short', '-1', targetCommit]);
-        console.log(`Target state after rollback: ${targetLog}`);
-        
-        // Show what files would be affected
-        const diff = await this.execGit(['diff', '--name-status', `HEAD~${count}`, 'HEAD']);
-        if (diff) {
-          console.log('\nFiles that would be changed:');
-          console.log(diff);
-        }
-        return;
+      const exists = existsSync(join(this.config.workTree, path));
+      if (!exists || this.largeFileStore.hash(path) !== hash) {
+        files.push({ path, action: exists ? 'restore' : 'recreate' });
+        stored.push({ path, hash });
       }
+    }
+    files.sort((a, b) => a.path.localeCompare(b.path));
 
-      // Create backup tag before rollback
-      const backupTag = `backup-${new Date().toISOString().replace(/[:.]/g, '-')}`;
-      spinner.text = 'Creating backup...';
-      try {
-        await this.execGit(['tag', backupTag, 'HEAD']);
-        console.log(chalk.gray(`Backup created: ${backupTag}`));
-        
-        // Auto-cleanup old backup tags (keep last 10)
-        await this.cleanupOldBackups(10);
-      } catch (error) {
-        console.warn(chalk.yellow('Warning: Could not create backup tag'));
-      }
-
-      // Confirmation prompt (unless --no-confirm or --force)
-      if (!options.noConfirm && !options.force) {
-        spinner.stop();
-        console.log(chalk.yellow(`\n⚠️  This will rollback ${count} commit(s) and cannot be undone easily.`));
-        console.log(chalk.gray(`(Backup saved as: ${backupTag})`));
-        
-        // Simple confirmation using built-in readline
-        const readline = await import('readline');
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout
-        });
-        
-        const answer = await new Promise<string>((resolve) => {
-          rl.question('Are you sure you want to continue? (y/N): ', resolve);
-        });
-        rl.close();
-        
-        if (answer.toLowerCase() !== 'y' && answer.toLowerCase() !== 'yes') {
-          console.log(chalk.yellow('Rollback cancelled.'));
-          return;
-        }
-        spinner.start();
+    if (files.length === 0) {
+      const matched = await this.execGit(['ls-files', '--cached', '--', ...pathspecs]);
+      if (!matched.trim()) {
+        throw new AIRewindError('NOT_FOUND', `No files match ${patterns.join(', ')} in the working tree or commit ${commit}`);
       }
+    }
 
-      spinner.text = `Rolling back ${count} commit(s)...`;
-      await this.execGit(['reset', '--hard', `HEAD~${count}`]);
-
-      spinner.succeed(chalk.green(`✓ Successfully rolled back ${count} commit(s)!`));
-      console.log(chalk.gray(`To restore: ai-rewind forward ${backupTag}`));
-      
-      // Show new state
-      console.log('\n' + chalk.cyan('Current state:'));
-      const newLog = await this.execGit(['log', '--format=%h - %ad - %s', '--date=short', '-1']);
-      console.log(newLog);
-    } catch (error) {
-      spinner.fail('Rollback failed');
-      throw error;
+    const result: FileRollbackResult = { patterns, commit, target, dryRun: !!options.dryRun, savedChanges: null, files };
+    if (options.dryRun || files.length === 0) {
+      return result;
     }
-  }
 
-  async status(): Promise<void> {
-    console.log(chalk.cyan.bold('AI Rewind - Status'));
-    console.log('=' .repeat(40));
+    // Deleted and overwritten files must stay recoverable, even ones never checkpointed
+    result.savedChanges = await this.saveUncommittedChanges(`WIP: Before restoring ${patterns.join(', ')}`);
 
-    try {
-      if (!(await this.isInitialized())) {
-        console.log(chalk.red('Error: AI tracking repository not initialized!'));
-        console.log('Please run "ai-rewind init" first');
-        return;
-      }
+    const restore = files.filter(file => file.action !== 'delete' && !stored.some(entry => entry.path === file.path));
+    if (restore.length > 0) {
+      // Paths go through stdin so unusual file names never reach argument validation
+      await this.execGit(['checkout', target.hash, '--pathspec-from-file=-', '--pathspec-file-nul'], {
+        input: restore.map(file => `:(literal)${file.path}\0`).join('')
+      });
+    }
+    for (const entry of stored) {
+      this.largeFileStore.restore(entry.hash, entry.path);
+    }
+    for (const file of files.filter(file => file.action === 'delete')) {
+      rmSync(join(this.config.workTree, file.path), { force: true });
+    }
 
-      console.log('\n' + chalk.yellow('Current Working Directory:'));
-      console.log(this.config.workTree);
+    return result;
+  }
 
-      console.log('\n' + chalk.yellow('Tracking Repository Status:'));
-      const status = await this.execGit(['status']);
-      console.log(status);
+  // Hunks of the diff between a checkpoint and the working tree
+  async listHunks(options: HunkOptions = {}): Promise<HunkList> {
+    const pathspecs = this.toPathspecs(options.paths ?? []);
 
-      console.log('\n' + chalk.yellow('Recent Commits:'));
-      const log = await this.execGit(['log', '--format=%h - %ad - %s', '--date=short', '-10']);
-      console.log(log);
+    await this.ensureInitialized();
 
-      try {
-        console.log('\n' + chalk.yellow('Files Changed in Last Commit:'));
-        const diff = await this.execGit(['diff', '--name-status', 'HEAD~1', 'HEAD']);
-        console.log(diff || '(No previous commits to compare)');
-      } catch {
-        console.log('(No previous commits to compare)');
-      }
-    } catch (error) {
-      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-    }
+    const commit = options.commit || 'HEAD~1';
+    const target = await this.resolveCheckpoint(commit);
+    const patch = await this.execGit(['diff', '--no-color', '--no-ext-diff', '--no-renames', target.hash, '--', ...pathspecs]);
+    return { commit, target, files: parseDiff(patch) };
   }
 
-  async log(count: number = 20): Promise<void> {
-    console.log(chalk.cyan.bold('AI Rewind - Change Log'));
-    console.log('=' .repeat(40));
-
-    try {
-      if (!(await this.isInitialized())) {
-        console.log(chalk.red('Error: AI tracking repository not initialized!'));
-        console.log('Please run "ai-rewind init" first');
-        return;
-      }
+  // Reverts the chosen hunks (by id from listHunks) back to the checkpoint and records a new checkpoint
+  async rollbackHunks(hunkIds: number[], options: HunkOptions = {}): Promise<HunkRollbackResult> {
+    const list = await this.listHunks(options);
+    const hunks = list.files.flatMap(file => file.hunks);
+    const selected = new Set(hunkIds);
+    const unknown = hunkIds.filter(id => !hunks.some(hunk => hunk.id === id));
+    if (unknown.length > 0) {
+      throw new AIRewindError('NOT_FOUND', `Unknown hunk(s): ${unknown.join(', ')}. Run "ai-rewind rollback-hunks --list" to see them.`);
+    }
 
-      console.log(`\nShowing last ${count} changes:\n`);
-      const log = await this.execGit(['log', '--format=%C(yellow)%h%C(reset) - %C(cyan)%ai%C(reset) - %s %C(green)%d%C(reset)', '--graph', `-n`, count.toString()]);
-      console.log(log);
+    const reverted = hunks.filter(hunk => selected.has(hunk.id));
+    const result: HunkRollbackResult = {
+      commit: list.commit,
+      target: list.target,
+      reverted,
+      kept: hunks.length - reverted.length,
+      savedChanges: null
+    };
+    if (reverted.length === 0) {
+      return result;
+    }
 
-      console.log('\n' + '=' .repeat(40));
-      console.log('\n' + chalk.gray('To see more details for a specific commit:'));
-      console.log(chalk.gray(`  git --git-dir=${this.config.gitDir} --work-tree=${this.config.workTree} show [commit-hash]`));
-      console.log('\n' + chalk.gray('To see all changes in detail:'));
-      console.log(chalk.gray(`  git --git-dir=${this.config.gitDir} --work-tree=${this.config.workTree} log -p`));
+    const patch = buildPatch(list.files, selected);
+    try {
+      await this.execGit(['apply', '-R', '--check'], { input: patch });
     } catch (error) {
-      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      throw new AIRewindError('GIT_ERROR', `Selected hunks no longer apply cleanly: ${error instanceof Error ? error.message : error}`);
     }
-  }
 
-  async forward(tagOrCommit: string): Promise<void> {
-    const spinner = ora('Restoring from backup...').start();
+    result.savedChanges = await this.saveUncommittedChanges('WIP: Before reverting hunks');
+    await this.execGit(['apply', '-R'], { input: patch });
 
-    try {
-      if (!(await this.isInitialized())) {
-        spinner.fail('AI tracking repository not initialized!');
-        throw new Error('Please run "ai-rewind init" first');
-      }
+    const paths = [...new Set(reverted.map(hunk => hunk.path))];
+    const checkpoint = await this.commit(`REVERT: ${reverted.length} hunk(s) in ${paths.join(', ')}`);
+    result.checkpoint = checkpoint.commit;
+    return result;
+  }
 
-      // Check if tag or commit exists
-      try {
-        await this.execGit(['rev-parse', tagOrCommit]);
-      } catch {
-        spinner.fail(`Backup or commit '${tagOrCommit}' not found`);
-        
-        // Show available backups
-        console.log('\n' + chalk.cyan('Available backups:'));
-        const tags = await this.execGit(['tag', '-l', 'backup-*']);
-        if (tags) {
-          console.log(tags);
-        } else {
-          console.log(chalk.gray('No backups found'));
-        }
-        return;
+  private toPathspecs(patterns: string[]): string[] {
+    return patterns.map(pattern => {
+      if (!pattern || typeof pattern !== 'string') {
+        throw new AIRewindError('INVALID_ARGUMENT', 'Invalid file path');
+      }
+      // Prevent path traversal
+      const normalized = pattern.replace(/\\/g, '/');
+      if (normalized.split('/').includes('..') || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Invalid path '${pattern}': must be relative to working directory`);
       }
+      // Globs are anchored at the project root like git pathspecs; anything else is a literal file or directory
+      return /[*?[]/.test(normalized) ? `:(glob)${normalized}` : `:(literal)${normalized.replace(/\/$/, '')}`;
+    });
+  }
 
-      // Reset to the specified tag/commit
-      spinner.text = `Restoring to ${tagOrCommit}...`;
-      await this.execGit(['reset', '--hard', tagOrCommit]);
+  // Turns a check-ignore source back into the config pattern, ignore file line or .gitignore
+  private explainIgnored(source: string, line: number, pattern: string): IgnoreRule {
+    const negated = pattern.startsWith('!');
+    if (!source.replace(/\\/g, '/').endsWith('info/exclude')) {
+      return { source: 'gitignore', file: source, line, pattern, negated };
+    }
+    // Layout written by writeExcludeFile: a header, the config patterns, a header, the file
+    const configCount = this.configManager.excludePatterns.length;
+    if (line <= configCount + 1) {
+      return { source: 'config', file: 'excludePatterns', line: line - 1, pattern, negated };
+    }
+    return { source: 'ignore-file', file: IGNORE_FILE, line: line - configCount - 2, pattern, negated };
+  }
 
-      spinner.succeed(chalk.green(`✓ Successfully restored to ${tagOrCommit}`));
-      
-      // Show current state
-      console.log('\n' + chalk.cyan('Current state:'));
-      const log = await this.execGit(['log', '--format=%h - %ad - %s', '--date=short', '-1']);
-      console.log(log);
-    } catch (error) {
-      spinner.fail('Failed to restore from backup');
-      throw error;
+  private checkpointTag(name: string): string {
+    assertRefName(name, 'checkpoint');
+    return `checkpoint/${name}`;
+  }
+
+  // Main line as configured by defaultBranch; older repositories may have been created
+  // with git's own default, so fall back to the first branch that isn't an experiment
+  private async getMainBranch(): Promise<string> {
+    const configured = this.configManager.defaultBranch;
+    if (await this.refExists(`refs/heads/${configured}`)) {
+      return configured;
+    }
+    const branches = (await this.execGit(['for-each-ref', '--format=%(refname:short)', 'refs/heads'])).split('\n').filter(Boolean);
+    const main = branches.find(branch => !branch.startsWith('experiment/'));
+    if (!main) {
+      throw new AIRewindError('NOT_FOUND', `Main branch '${configured}' not found`);
     }
+    return main;
   }
 
-  async listBackups(): Promise<void> {
-    if (!(await this.isInitialized())) {
-      console.log(chalk.red('Error: AI tracking repository not initialized!'));
-      return;
+  // The main branch by name, or experiment/<name>
+  private async resolveBranch(name: string, mainBranch: string): Promise<string> {
+    if (name === mainBranch) {
+      return mainBranch;
+    }
+    assertRefName(name, 'experiment');
+    const branch = `experiment/${name}`;
+    if (!(await this.refExists(`refs/heads/${branch}`))) {
+      throw new AIRewindError('NOT_FOUND', `Experiment '${name}' not found. Run "ai-rewind experiment list" to list experiments.`);
     }
+    return branch;
+  }
 
-    console.log(chalk.cyan.bold('AI Rewind - Available Backups'));
-    console.log('=' .repeat(40));
+  private async getCurrentBranch(): Promise<string | null> {
+    return (await this.execGit(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '')) || null;
+  }
 
-    const tags = await this.execGit(['tag', '-l', 'backup-*', '--sort=-creatordate']);
-    
-    if (!tags) {
-      console.log(chalk.yellow('No backups found'));
-      console.log(chalk.gray('\nBackups are created automatically when you rollback'));
-      return;
-    }
+  private async checkoutBranch(branch: string, create: { from: string } | null, previous: string | null): Promise<ExperimentSwitchResult> {
+    // Pending work stays on the branch it was made on
+    const savedChanges = await this.saveUncommittedChanges(`WIP: Before switching to ${branch}`);
+    await this.execGit(create ? ['checkout', '-q', '-b', branch, create.from] : ['checkout', '-q', branch]);
+    await this.restoreLargeFiles();
+    return { branch, previous, created: !!create, savedChanges, head: await this.getCommit('HEAD') };
+  }
 
-    console.log('\n' + chalk.yellow('Backup tags:'));
-    const tagLines = tags.split('\n').filter(t => t);
-    
-    for (const tag of tagLines) {
-      try {
-        const commit = await this.execGit(['log', '--format=%h - %ad - %s', '--date=short', '-1', tag]);
-        console.log(`  ${chalk.green(tag)}`);
-        console.log(`    ${chalk.gray(commit)}`);
-      } catch {
-        console.log(`  ${tag}`);
-      }
+  private async findCheckpoint(name: string, tag: string): Promise<NamedCheckpoint> {
+    if (!(await this.refExists(`refs/tags/${tag}`))) {
+      throw new AIRewindError('NOT_FOUND', `Checkpoint '${name}' not found. Run "ai-rewind checkpoints" to list available checkpoints.`);
     }
+    return this.readCheckpoint(tag);
+  }
 
-    console.log('\n' + chalk.gray('To restore: ai-rewind forward <backup-tag>'));
+  private async readCheckpoint(tag: string): Promise<NamedCheckpoint> {
+    const [createdAt, ...message] = (
+      await this.execGit(['for-each-ref', '--format=%(creatordate:iso-strict)%0a%(contents)', `refs/tags/${tag}`])
+    ).split('\n');
+    return {
+      name: tag.replace(/^checkpoint\//, ''),
+      tag,
+      message: message.join('\n').trim(),
+      createdAt,
+      commit: await this.getCommit(tag),
+      diffstat: parseShortStat(await this.execGit(['diff', '--shortstat', 'HEAD', tag]))
+    };
   }
 
-  async diff(commitHash?: string): Promise<void> {
-    try {
-      if (!(await this.isInitialized())) {
-        console.log(chalk.red('Error: AI tracking repository not initialized!'));
-        return;
-      }
+  private async refExists(ref: string): Promise<boolean> {
+    return this.execGit(['show-ref', '--verify', '--quiet', ref]).then(() => true, () => false);
+  }
 
-      let diff: string;
-      if (commitHash) {
-        diff = await this.execGit(['show', commitHash]);
-      } else {
-        diff = await this.execGit(['diff', 'HEAD']);
+  // A commit or tag as git resolves it, else a named checkpoint, else an experiment
+  private async resolveDiffPoint(name: string): Promise<string> {
+    const candidates = name.startsWith('-') ? [] : [name, `refs/tags/checkpoint/${name}`, `refs/heads/experiment/${name}`];
+    for (const candidate of candidates) {
+      const hash = (await this.execGit(['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`]).catch(() => '')).trim();
+      if (hash) {
+        return hash;
       }
-
-      console.log(diff || 'No changes to show');
-    } catch (error) {
-      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
     }
+    throw new AIRewindError('NOT_FOUND', `'${name}' is not a commit, backup, named checkpoint or experiment`);
   }
 
-  async stats(): Promise<void> {
-    const spinner = ora('Calculating statistics...').start();
-
+  private async resolveCheckpoint(revision: string): Promise<CommitEntry> {
     try {
-      if (!(await this.isInitialized())) {
-        spinner.fail('AI tracking repository not initialized!');
-        return;
-      }
+      await this.execGit(['rev-parse', '--verify', `${revision}^{commit}`]);
+      return await this.getCommit(revision);
+    } catch {
+      throw new AIRewindError('NOT_FOUND', `Commit '${revision}' not found`);
+    }
+  }
 
-      // Get commit count
-      const commitCount = await this.execGit(['rev-list', '--count', 'HEAD']);
-      
-      // Get file change statistics
-      const filesChanged = await this.execGit(['diff', '--stat', '--name-only', 'HEAD~1', 'HEAD']).catch(() => '');
-      const filesChangedCount = filesChanged ? filesChanged.split('\n').filter(Boolean).length : 0;
-      
-      // Get total files tracked
-      const trackedFiles = await this.execGit(['ls-files']);
-      const trackedCount = trackedFiles.split('\n').filter(Boolean).length;
-      
-      // Get repository size
-      const repoSize = await this.execGit(['count-objects', '-v']);
-      const sizeMatch = repoSize.match(/size: (\d+)/);
-      const sizeKb = sizeMatch ? parseInt(sizeMatch[1]) : 0;
-      
-      // Get first and last commit dates
-      const firstCommit = await this.execGit(['log', '--reverse', '--format=%ai', '-1']);
-      const lastCommit = await this.execGit(['log', '--format=%ai', '-1']);
-      
-      // Get top changed files
-      const topFiles = await this.execGit([
-        'log', '--pretty=format:', '--name-only'
-      ]).catch(() => '');
-      
-      const fileFrequency: Record<string, number> = {};
-      topFiles.split('\n').filter(Boolean).forEach(file => {
-        fileFrequency[file] = (fileFrequency[file] || 0) + 1;
+  private async getLog(args: string[]): Promise<CommitEntry[]> {
+    const output = await this.execGit([
+      'log',
+      '--format=%H%x1f%h%x1f%aI%x1f%s%x1f%D%x1f%(trailers:only,unfold,separator=%x1d)%x1e',
+      ...args
+    ]);
+    return output
+      .split('\x1e')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [hash, shortHash, date, subject, refs, trailers] = entry.split('\x1f');
+        return {
+          hash,
+          shortHash,
+          date,
+          subject,
+          refs: refs ? refs.split(', ').map(ref => ref.replace(/^(HEAD -> |tag: )/, '')) : [],
+          metadata: this.parseMetadata(trailers ?? ''),
+          main: parseMainRepoState(trailers ?? '')
+        };
       });
-      
-      const sortedFiles = Object.entries(fileFrequency)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 5);
+  }
 
-      spinner.succeed('Statistics calculated');
+  // Explicit values win over AI_REWIND_* environment variables; returns "Key: value" trailer lines
+  private resolveMetadata(metadata: CheckpointMetadata): string[] {
+    const trailers: string[] = [];
+    for (const field of METADATA_FIELDS) {
+      const raw = metadata[field.key] ?? process.env[field.env];
+      if (raw === undefined) {
+        continue;
+      }
+      if (typeof raw !== 'string') {
+        throw new AIRewindError('INVALID_ARGUMENT', `Checkpoint ${field.key} must be a string`);
+      }
+      const value = stripControlCharacters(raw).trim();
+      if (value.length > 200) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Checkpoint ${field.key} too long (max 200 characters)`);
+      }
+      if (value) {
+        trailers.push(`${field.trailer}: ${value}`);
+      }
+    }
+    return trailers;
+  }
 
-      // Display statistics
-      console.log('\n' + chalk.cyan.bold('📊 AI Rewind Statistics'));
-      console.log('=' .repeat(40));
-      
-      console.log('\n' + chalk.yellow('Repository Info:'));
-      console.log(`  Total Commits: ${chalk.green(commitCount)}`);
-      console.log(`  Files Tracked: ${chalk.green(trackedCount)}`);
-      console.log(`  Repository Size: ${chalk.green(sizeKb + ' KB')}`);
-      
-      console.log('\n' + chalk.yellow('Timeline:'));
-      console.log(`  First Commit: ${chalk.green(firstCommit.trim())}`);
-      console.log(`  Last Commit: ${chalk.green(lastCommit.trim())}`);
-      
-      console.log('\n' + chalk.yellow('Recent Activity:'));
-      console.log(`  Files Changed in Last Commit: ${chalk.green(filesChangedCount)}`);
-      
-      if (sortedFiles.length > 0) {
-        console.log('\n' + chalk.yellow('Most Frequently Modified Files:'));
-        sortedFiles.forEach(([file, count]) => {
-          console.log(`  ${chalk.blue(file)}: ${chalk.green(count + ' changes')}`);
-        });
+  private parseMetadata(trailers: string): CheckpointMetadata {
+    const metadata: CheckpointMetadata = {};
+    for (const trailer of trailers.split('\x1d')) {
+      const separator = trailer.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const name = trailer.slice(0, separator).trim().toLowerCase();
+      const field = METADATA_FIELDS.find(f => f.trailer.toLowerCase() === name);
+      if (field) {
+        metadata[field.key] = trailer.slice(separator + 1).trim();
       }
-      
-      // Show config info
-      console.log('\n' + chalk.yellow('Configuration:'));
-      console.log(`  Config File: ${existsSync(join(this.config.workTree, '.ai-rewind.json')) ? chalk.green('Present') : chalk.gray('Not found')}`);
-      console.log(`  Auto-commit Threshold: ${chalk.green(this.configManager.autoCommitThreshold + ' files')}`);
-      console.log(`  Max Commits: ${chalk.green(this.configManager.maxCommits)}`);
-      
-    } catch (error) {
-      spinner.fail('Failed to calculate statistics');
-      console.log(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
     }
+    return metadata;
   }
 
-  async init(): Promise<void> {
-    await this.initialize();
-    this.configManager.createDefault();
+  private matchesFilter(commit: CommitEntry, filter: CommitFilter): boolean {
+    return (!filter.agent || commit.metadata.agent === filter.agent)
+      && (!filter.session || commit.metadata.session === filter.session)
+      && (!filter.mainBranch || commit.main?.branch === filter.mainBranch);
   }
 
-  private async cleanupOldBackups(keepCount: number = 10): Promise<void> {
-    try {
-      // Get all backup tags sorted by date (newest first)
-      const tags = await this.execGit(['tag', '-l', 'backup-*', '--sort=-creatordate']);
-      const backupTags = tags.split('\n').filter(tag => tag.trim());
-      
-      // If we have more than keepCount backups, delete the old ones
-      if (backupTags.length > keepCount) {
-        const tagsToDelete = backupTags.slice(keepCount);
-        for (const tag of tagsToDelete) {
-          if (tag.trim()) {
-            await this.execGit(['tag', '-d', tag.trim()]);
-          }
-        }
-        
-        if (tagsToDelete.length > 0) {
-          console.log(chalk.gray(`Cleaned up ${tagsToDelete.length} old backup(s)`));
-        }
-      }
-    } catch (error) {
-      // Silently fail - cleanup is not critical
+  private async getCommit(revision: string): Promise<CommitEntry> {
+    const [entry] = await this.getLog(['-1', revision, '--']);
+    if (!entry) {
+      throw new AIRewindError('NOT_FOUND', `Commit '${revision}' not found`);
     }
+    return entry;
   }
 
-  async rollbackFile(filePath: string, commit?: string): Promise<void> {
-    // Validate file path
-    if (!filePath || typeof filePath !== 'string') {
-      throw new Error('Invalid file path');
-    }
-    
-    // Prevent path traversal
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    if (normalizedPath.includes('../') || normalizedPath.startsWith('/')) {
-      throw new Error('Invalid file path: must be relative to working directory');
+  private async getStatusEntries(paths: string[] = []): Promise<StatusEntry[]> {
+    const args = ['status', '--porcelain'];
+    // Untracked directories are listed file by file so large and binary files inside them can be
+    // told apart
+    args.push('--untracked-files=all');
+    if (paths.length > 0) {
+      args.push('--', ...paths);
     }
-    
-    // Validate commit hash if provided
-    if (commit) {
-      if (!/^[a-zA-Z0-9~^]+$/.test(commit)) {
-        throw new Error('Invalid commit reference');
+    const status = await this.execGit(args);
+    let entries: StatusEntry[] = status
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const code = line.slice(0, 2);
+        const [path, originalPath] = line.slice(3).split(' -> ').reverse();
+        return { path, code, kind: this.statusKind(code), ...(originalPath ? { originalPath } : {}) };
+      });
+
+    // A working file that differs from its redacted checkpoint only by the secrets isn't a change
+    if (this.configManager.secretPolicy === 'redact') {
+      const redacted = new Set<string>();
+      for (const entry of entries) {
+        if (entry.code === ' M' && (await this.matchesRedactedCopy(entry.path))) {
+          redacted.add(entry.path);
+        }
       }
+      entries = entries.filter(entry => !redacted.has(entry.path));
     }
-    
-    const spinner = ora('Checking file history...').start();
 
+    // Large and binary files never reach the index, so git can't tell whether they changed
+    const largeFiles = await this.scanLargeFiles();
+    const largePaths = new Set(largeFiles.map(entry => entry.path));
+    const result = entries.filter(entry => !largePaths.has(entry.path));
+    if (paths.length === 0) {
+      result.push(...(await this.getLargeFileChanges(largeFiles)));
+    }
+    return result;
+  }
+
+
+  // Without `to`, compares against the working tree
+  private async getFileChanges(from: string, to?: string): Promise<FileChange[]> {
+    const diff = await this.execGit(['diff', '--name-status', from, ...(to ? [to] : [])]);
+    return diff
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [code, ...paths] = line.split('\t');
+        const kind = this.statusKind(code[0]);
+        return paths.length > 1
+          ? { path: paths[1], kind, originalPath: paths[0] }
+          : { path: paths[0], kind };
+      });
+  }
+
+  private statusKind(code: string): ChangeKind {
+    if (code === '??') return 'untracked';
+    if (code.includes('U') || code === 'AA' || code === 'DD') return 'unmerged';
+    const letter = code.trim()[0];
+    switch (letter) {
+      case 'A': return 'added';
+      case 'D': return 'deleted';
+      case 'R': return 'renamed';
+      case 'C': return 'copied';
+      case 'T': return 'typechange';
+      default: return 'modified';
+    }
+  }
+
+  private async isMainRepoDirty(): Promise<boolean | null> {
+    const mainGitPath = join(this.config.workTree, '.git');
+    if (!existsSync(mainGitPath)) {
+      return null;
+    }
     try {
-      if (!(await this.isInitialized())) {
-        spinner.fail('AI tracking repository not initialized!');
-        throw new Error('Please run "ai-rewind init" first');
-      }
+      const { stdout: mainStatus } = await execa('git', ['status', '--porcelain'], { cwd: this.config.workTree });
+      return mainStatus.trim().length > 0;
+    } catch {
+      // Main git command failed - repo might be in bad state
+      return null;
+    }
+  }
 
-      // Default to previous commit if not specified
-      const targetCommit = commit || 'HEAD~1';
+  async installHooks(options: { settingsPath?: string; installPath?: string } = {}): Promise<HookInstallResult> {
+    const { installPath, homeDir } = this.resolveInstallPaths(options.installPath);
+    const settingsPath = options.settingsPath || join(homeDir, '.claude', 'settings.json');
 
-      // Check if file exists in the target commit
+    const created = !existsSync(settingsPath);
+    let settings: HookSettings = {};
+    if (!created) {
       try {
-        await this.execGit(['cat-file', '-e', `${targetCommit}:${filePath}`]);
+        settings = JSON.parse(readFileSync(settingsPath, 'utf-8'));
       } catch {
-        spinner.fail(`File '${filePath}' not found in commit ${targetCommit}`);
-        return;
+        throw new AIRewindError('INVALID_ARGUMENT', `Cannot parse ${settingsPath}; fix or remove it before installing hooks`);
       }
+    }
 
-      spinner.text = `Restoring ${filePath} from ${targetCommit}...`;
+    const cliPath = join(installPath, 'dist', 'cli.js');
+    const base = `node ${cliPath.includes(' ') ? `"${cliPath}"` : cliPath} hook`;
+    const changed = mergeHookSettings(settings, event => `${base} ${event}`);
 
-      // Restore the file from the specified commit
-      await this.execGit(['checkout', targetCommit, '--', filePath]);
+    if (changed) {
+      mkdirSync(dirname(settingsPath), { recursive: true });
+      writeFileSync(settingsPath, `${JSON.stringify(settings, null, 2)}\n`, 'utf-8');
+    }
 
-      spinner.succeed(chalk.green(`✓ Successfully restored ${filePath}`));
-      
-      console.log('\n' + chalk.cyan('File restored. Current status:'));
-      const status = await this.execGit(['status', '--porcelain', filePath]);
-      console.log(status || 'File is unchanged from repository');
-      
-      console.log('\n' + chalk.yellow('Note: Changes are not committed yet.'));
-      console.log('To save: ' + chalk.cyan(`node ~/ai-rewind/dist/cli.js commit "Restored ${filePath}"`));
-      console.log('To undo: ' + chalk.cyan(`node ~/ai-rewind/dist/cli.js checkout HEAD -- ${filePath}`));
-    } catch (error) {
-      spinner.fail('Failed to rollback file');
-      throw error;
+    return {
+      settingsPath,
+      command: base,
+      events: [...HOOK_EVENTS],
+      alreadyConfigured: !changed,
+      created
+    };
+  }
+
+  private resolveInstallPaths(customPath?: string): { installPath: string; homeDir: string } {
+    // Determine the installation path
+    const installPath = customPath || __dirname.replace(/[\\\/]dist[\\\/]?.*/, '');
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
+    
+    if (!homeDir) {
+      throw new AIRewindError('UNKNOWN', 'Could not determine home directory');
     }
+    return { installPath, homeDir };
   }
 
-  async installGlobally(customPath?: string): Promise<void> {
-    const spinner = ora('Setting up AI Rewind globally...').start();
+  async installGlobally(customPath?: string): Promise<InstallResult> {
+    const { installPath, homeDir } = this.resolveInstallPaths(customPath);
     
-    try {
-      // Determine the installation path
-      const installPath = customPath || __dirname.replace(/[\\\/]dist[\\\/]?.*/, '');
-      const platform = process.platform;
-      const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-      
-      if (!homeDir) {
-        throw new Error('Could not determine home directory');
-      }
-      
-      // Path to CLAUDE.md
-      const claudeMdPath = join(homeDir, '.claude', 'CLAUDE.md');
-      const claudeDir = join(homeDir, '.claude');
-      
-      // Ensure .claude directory exists
-      if (!existsSync(claudeDir)) {
-        mkdirSync(claudeDir, { recursive: true });
-        spinner.text = 'Created .claude directory...';
-      }
-      
-      // Prepare the content to add
-      const aiRewindSection = `
+    // Path to CLAUDE.md
+    const claudeMdPath = join(homeDir, '.claude', 'CLAUDE.md');
+    const claudeDir = join(homeDir, '.claude');
+    
+    // Ensure .claude directory exists
+    if (!existsSync(claudeDir)) {
+      mkdirSync(claudeDir, { recursive: true });
+    }
+    
+    // Prepare the content to add
+    const aiRewindSection = `
 ## AI Rewind Integration
 
 When working on projects with AI Rewind available (look for \`ai-rewind\` directory in user's home), use these guidelines:
@@ -761,6 +2748,8 @@ node ~/ai-rewind/dist/cli.js init
 node ~/ai-rewind/dist/cli.js commit "[TYPE]: Description"
 \`\`\`
 
+If the \`ai-rewind\` MCP server is connected, prefer its tools (\`commit\`, \`log\`, \`diff\`, \`rollback\`, ...) over shelling out.
+
 ### Automatic Commit Triggers
 - **5+ files modified** → Commit with "WIP: Multiple files updated"
 - **100+ lines changed** → Commit with "FEATURE: Significant changes"
@@ -820,43 +2809,28 @@ node %USERPROFILE%\\ai-rewind\\dist\\cli.js commit "CHECKPOINT: User requested"
 
 Remember: Track proactively, commit strategically, rewind confidently.
 `;
+    
+    // Check if CLAUDE.md exists
+    let content = '';
+    const created = !existsSync(claudeMdPath);
+    if (!created) {
+      content = readFileSync(claudeMdPath, 'utf-8');
       
-      // Check if CLAUDE.md exists
-      let content = '';
-      if (existsSync(claudeMdPath)) {
-        content = readFileSync(claudeMdPath, 'utf-8');
-        
-        // Check if AI Rewind section already exists
-        if (content.includes('## AI Rewind Integration')) {
-          spinner.succeed('AI Rewind already configured in CLAUDE.md');
-          console.log(chalk.yellow('\nNote: AI Rewind section already exists in your CLAUDE.md'));
-          return;
-        }
-        
-        // Append to existing file
-        spinner.text = 'Updating CLAUDE.md...';
-        content = content.trimEnd() + '\n\n' + aiRewindSection;
-      } else {
-        // Create new file
-        spinner.text = 'Creating CLAUDE.md...';
-        content = '# Claude AI Assistant Instructions\n' + aiRewindSection;
+      // Check if AI Rewind section already exists
+      if (content.includes('## AI Rewind Integration')) {
+        return { claudeMdPath, installPath, alreadyConfigured: true, created: false };
       }
       
-      // Write the file
-      writeFileSync(claudeMdPath, content, 'utf-8');
-      
-      spinner.succeed('AI Rewind globally configured!');
-      
-      console.log('\n' + chalk.green('✓ AI Rewind has been added to your global CLAUDE.md'));
-      console.log(chalk.cyan('Location:'), claudeMdPath);
-      console.log('\n' + chalk.yellow('Next steps:'));
-      console.log('1. Navigate to any project: ' + chalk.cyan('cd /path/to/project'));
-      console.log('2. Initialize AI Rewind: ' + chalk.cyan(`node ${installPath}/dist/cli.js init`));
-      console.log('\n' + chalk.gray('Claude will now automatically use AI Rewind in all your projects!'));
-      
-    } catch (error) {
-      spinner.fail('Failed to install globally');
-      throw error;
+      // Append to existing file
+      content = content.trimEnd() + '\n\n' + aiRewindSection;
+    } else {
+      // Create new file
+      content = '# Claude AI Assistant Instructions\n' + aiRewindSection;
     }
+    
+    // Write the file
+    writeFileSync(claudeMdPath, content, 'utf-8');
+
+    return { claudeMdPath, installPath, alreadyConfigured: false, created };
   }
-}
\ No newline at end of file
+}
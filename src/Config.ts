@@ -1,5 +1,8 @@
-import { existsSync, readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { AIRewindError } from './errors.js';
+import type { BinaryPolicy, SecretPolicy } from './types.js';
 
 export interface TrackerConfigOptions {
   excludePatterns?: string[];
@@ -8,122 +11,410 @@ export interface TrackerConfigOptions {
   maxCommits?: number;
   verboseOutput?: boolean;
   defaultBranch?: string;
+  // Newest backup-* tags to keep; 0 keeps all
+  backupRetentionCount?: number;
+  // Backups older than this are pruned; 0 disables the age limit
+  backupMaxAgeDays?: number;
+  // Backup tags that retention never removes, in addition to those pinned with `backups pin`
+  pinnedBackups?: string[];
+  // Files larger than this many bytes are handled by binaryPolicy like binary files; 0 disables the limit
+  maxFileSize?: number;
+  binaryPolicy?: BinaryPolicy;
+  // What to do when a checkpoint would store something that looks like a credential
+  secretPolicy?: SecretPolicy;
+}
+
+export type ConfigKey = keyof TrackerConfigOptions;
+
+export interface ConfigKeyDescriptor {
+  key: ConfigKey;
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'string[]';
+  description: string;
+  // Numbers outside the range are clamped into it
+  min?: number;
+  max?: number;
+  // Longest accepted string (or array entry)
+  maxLength?: number;
+  // Arrays are truncated to this many entries
+  maxItems?: number;
+  // The only strings accepted
+  values?: string[];
+}
+
+// Where a setting came from, lowest precedence first
+export type ConfigSource = 'default' | 'user' | 'project' | 'env' | 'cli';
+
+// A setting that was clamped, dropped or couldn't be read
+export interface ConfigIssue {
+  // null for problems with a file (or flag) as a whole
+  key: string | null;
+  message: string;
+  source: ConfigSource;
+  // The file, environment variable or flag to fix
+  origin: string;
+}
+
+export interface ConfigValue {
+  key: ConfigKey;
+  value: unknown;
+  // The highest layer that set the value
+  source: ConfigSource;
+  // Every layer that contributed, lowest first; several when a list extends the layers below
+  sources: ConfigSource[];
+  description: string;
+}
+
+export interface ConfigChange {
+  key: ConfigKey;
+  previous: unknown;
+  value: unknown;
+  // Adjustments made while validating the new value, e.g. clamping
+  issues: ConfigIssue[];
+  configPath: string;
+  // Set when an environment variable or --set flag still takes precedence over the saved value
+  overriddenBy?: ConfigSource;
+}
+
+export interface ConfigLoadOptions {
+  // Don't print issues; callers read them from `issues` instead
+  quiet?: boolean;
+  // key=value pairs from --set flags, the highest precedence layer
+  overrides?: string[];
+  // Where AI_REWIND_* variables are read from (default: process.env)
+  env?: Record<string, string | undefined>;
+  // User-level file (default: $XDG_CONFIG_HOME/ai-rewind/config.json); null skips that layer
+  userConfigPath?: string | null;
+}
+
+export const CONFIG_KEYS: ConfigKeyDescriptor[] = [
+  { key: 'excludePatterns', type: 'string[]', description: 'Glob patterns that are never checkpointed', maxLength: 999, maxItems: 100 },
+  { key: 'autoCommitThreshold', type: 'integer', description: 'Changed files that trigger an automatic checkpoint in watch mode', min: 1, max: 1000 },
+  { key: 'commitMessageFormat', type: 'string', description: 'Default checkpoint message; {timestamp} is replaced', maxLength: 499 },
+  { key: 'maxCommits', type: 'integer', description: 'Checkpoints kept before older ones are compacted', min: 10, max: 10000 },
+  { key: 'verboseOutput', type: 'boolean', description: 'Print extra detail' },
+  { key: 'defaultBranch', type: 'string', description: 'Main line branch of the shadow repository', maxLength: 99 },
+  { key: 'backupRetentionCount', type: 'integer', description: 'Newest backup tags to keep; 0 keeps all', min: 0, max: 10000 },
+  { key: 'backupMaxAgeDays', type: 'number', description: 'Prune backups older than this many days; 0 disables', min: 0, max: 3650 },
+  { key: 'pinnedBackups', type: 'string[]', description: 'Backup tags that are never pruned', maxLength: 199, maxItems: 1000 },
+  { key: 'maxFileSize', type: 'integer', description: 'Files larger than this many bytes are handled by binaryPolicy like binary files; 0 disables the limit', min: 0, max: Number.MAX_SAFE_INTEGER },
+  { key: 'binaryPolicy', type: 'string', description: 'Binary files and files over maxFileSize: skip them, store their content outside git history, or record metadata only', values: ['skip', 'store', 'metadata'] },
+  { key: 'secretPolicy', type: 'string', description: 'Possible secrets in a checkpoint: block it, redact them, warn, or skip scanning', values: ['block', 'redact', 'warn', 'off'] }
+];
+
+const DEFAULT_CONFIG: Required<TrackerConfigOptions> = {
+  excludePatterns: [
+    'node_modules/**',
+    '.git/**',
+    '.git-ai-tracking/**',
+    '**/*.log',
+    '**/dist/**',
+    '**/build/**',
+    '**/.env*',
+    '**/coverage/**',
+    '**/*.tmp'
+  ],
+  autoCommitThreshold: 5,
+  commitMessageFormat: 'AI change at {timestamp}',
+  maxCommits: 100,
+  verboseOutput: false,
+  defaultBranch: 'master',
+  backupRetentionCount: 10,
+  backupMaxAgeDays: 0,
+  pinnedBackups: [],
+  maxFileSize: 10 * 1024 * 1024,
+  binaryPolicy: 'store',
+  secretPolicy: 'block'
+};
+
+// 100KB max, to prevent DoS
+const MAX_FILE_SIZE = 100000;
+
+// List entry that stands for the value of the layers below, e.g. ["...", "vendor/**"]
+export const INHERIT_ENTRY = '...';
+
+const SOURCE_ORDER: ConfigSource[] = ['default', 'user', 'project', 'env', 'cli'];
+
+interface ConfigLayer {
+  source: ConfigSource;
+  values: Partial<Record<ConfigKey, unknown>>;
+}
+
+interface ConfigFile extends ConfigLayer {
+  source: 'user' | 'project';
+  path: string;
+  // How the file is named in messages
+  origin: string;
+  // The file's JSON object as written, so saving keeps keys this version doesn't know
+  raw: Record<string, unknown> | null;
+  // Why the whole file was ignored, if it was
+  error: string | null;
 }
 
 export class Config {
-  private configPath: string;
+  private projectPath: string;
+  private userPath: string | null;
+  private env: Record<string, string | undefined>;
+  private overrides: string[];
   private config: TrackerConfigOptions;
-  private defaults: TrackerConfigOptions = {
-    excludePatterns: [
-      'node_modules/**',
-      '.git/**',
-      '.git-ai-tracking/**',
-      '**/*.log',
-      '**/dist/**',
-      '**/build/**',
-      '**/.env*',
-      '**/coverage/**',
-      '**/*.tmp'
-    ],
-    autoCommitThreshold: 5,
-    commitMessageFormat: 'AI change at {timestamp}',
-    maxCommits: 100,
-    verboseOutput: false,
-    defaultBranch: 'master'
-  };
+  private defaults: Required<TrackerConfigOptions> = DEFAULT_CONFIG;
+  private files: ConfigFile[] = [];
+  private loadIssues: ConfigIssue[] = [];
+  private sources = new Map<ConfigKey, ConfigSource[]>();
 
-  constructor(workTree: string) {
-    this.configPath = join(workTree, '.ai-rewind.json');
+  constructor(workTree: string, options: ConfigLoadOptions = {}) {
+    this.projectPath = join(workTree, '.ai-rewind.json');
+    this.userPath = options.userConfigPath === undefined ? defaultUserConfigPath() : options.userConfigPath;
+    this.env = options.env ?? process.env;
+    this.overrides = options.overrides ?? [];
     this.config = this.load();
+    if (!options.quiet) {
+      for (const issue of this.loadIssues) {
+        console.warn(`Warning: ${issue.origin}: ${issue.message}`);
+      }
+    }
   }
 
+  // Defaults, then the user file, the project file, AI_REWIND_* variables and --set flags.
+  // A list containing "..." extends the value below it instead of replacing it.
   private load(): TrackerConfigOptions {
-    if (existsSync(this.configPath)) {
-      try {
-        const content = readFileSync(this.configPath, 'utf-8');
-        
-        // Check file size to prevent DoS
-        if (content.length > 100000) { // 100KB max
-          console.warn('Warning: Config file too large, using defaults');
-          return this.defaults;
-        }
-        
-        const userConfig = JSON.parse(content);
-        
-        // Validate config schema to prevent prototype pollution
-        const validatedConfig: TrackerConfigOptions = {};
-        
-        // Only copy allowed properties
-        if (Array.isArray(userConfig.excludePatterns)) {
-          validatedConfig.excludePatterns = userConfig.excludePatterns
-            .filter((p: any) => typeof p === 'string' && p.length < 1000)
-            .slice(0, 100); // Max 100 patterns
-        }
-        
-        if (typeof userConfig.autoCommitThreshold === 'number') {
-          validatedConfig.autoCommitThreshold = Math.min(Math.max(1, userConfig.autoCommitThreshold), 1000);
-        }
-        
-        if (typeof userConfig.commitMessageFormat === 'string' && userConfig.commitMessageFormat.length < 500) {
-          validatedConfig.commitMessageFormat = userConfig.commitMessageFormat;
-        }
-        
-        if (typeof userConfig.maxCommits === 'number') {
-          validatedConfig.maxCommits = Math.min(Math.max(10, userConfig.maxCommits), 10000);
-        }
-        
-        if (typeof userConfig.verboseOutput === 'boolean') {
-          validatedConfig.verboseOutput = userConfig.verboseOutput;
+    this.loadIssues = [];
+    this.files = [];
+    if (this.userPath) {
+      this.files.push(this.readFile(this.userPath, 'user', tildify(this.userPath)));
+    }
+    this.files.push(this.readFile(this.projectPath, 'project', '.ai-rewind.json'));
+
+    const merged: Record<string, unknown> = { ...this.defaults };
+    this.sources = new Map(CONFIG_KEYS.map(descriptor => [descriptor.key, ['default']]));
+    for (const layer of [...this.files, this.readEnv(), this.readOverrides()]) {
+      for (const [key, value] of Object.entries(layer.values) as [ConfigKey, unknown][]) {
+        if (Array.isArray(value) && value.includes(INHERIT_ENTRY)) {
+          const inherited = (merged[key] as string[] | undefined) ?? [];
+          merged[key] = [...new Set(value.flatMap(entry => entry === INHERIT_ENTRY ? inherited : [entry]))];
+          this.sources.set(key, [...(this.sources.get(key) ?? []), layer.source]);
+        } else {
+          merged[key] = value;
+          this.sources.set(key, [layer.source]);
         }
-        
-        if (typeof userConfig.defaultBranch === 'string' && userConfig.defaultBranch.length < 100) {
-          validatedConfig.defaultBranch = userConfig.defaultBranch;
+      }
+    }
+    return merged as TrackerConfigOptions;
+  }
+
+  private readFile(path: string, source: 'user' | 'project', origin: string): ConfigFile {
+    const file: ConfigFile = { source, path, origin, values: {}, raw: null, error: null };
+    if (!existsSync(path)) {
+      return file;
+    }
+
+    const content = readFileSync(path, 'utf-8');
+    let parsed: unknown;
+    if (content.length > MAX_FILE_SIZE) {
+      file.error = `File is larger than ${MAX_FILE_SIZE} bytes; using defaults`;
+    } else {
+      try {
+        parsed = JSON.parse(content);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          file.error = 'Expected a JSON object; using defaults';
         }
-        
-        return { ...this.defaults, ...validatedConfig };
       } catch (error) {
-        console.warn('Warning: Invalid .ai-rewind.json, using defaults');
-        return this.defaults;
+        file.error = `Invalid JSON (${error instanceof Error ? error.message : error}); using defaults`;
+      }
+    }
+    if (file.error) {
+      this.loadIssues.push({ key: null, message: file.error, source, origin });
+      return file;
+    }
+    file.raw = parsed as Record<string, unknown>;
+
+    // Only known keys are copied, which also prevents prototype pollution
+    for (const [key, value] of Object.entries(file.raw)) {
+      const descriptor = CONFIG_KEYS.find(entry => entry.key === key);
+      if (!descriptor) {
+        if (key !== '$schema') {
+          this.loadIssues.push({ key, message: `Unknown key '${key}' ignored`, source, origin });
+        }
+        continue;
+      }
+      this.addValue(file, descriptor, () => value, origin);
+    }
+    return file;
+  }
+
+  // AI_REWIND_MAX_COMMITS=500, AI_REWIND_EXCLUDE_PATTERNS="...,vendor/**"
+  private readEnv(): ConfigLayer {
+    const layer: ConfigLayer = { source: 'env', values: {} };
+    for (const descriptor of CONFIG_KEYS) {
+      const name = configEnvName(descriptor.key);
+      const input = this.env[name];
+      if (input !== undefined && input !== '') {
+        this.addValue(layer, descriptor, () => parseConfigInput(descriptor, input), name);
       }
     }
-    return this.defaults;
+    return layer;
   }
 
+  private readOverrides(): ConfigLayer {
+    const layer: ConfigLayer = { source: 'cli', values: {} };
+    for (const override of this.overrides) {
+      const separator = override.indexOf('=');
+      const key = override.slice(0, separator).trim();
+      const descriptor = CONFIG_KEYS.find(entry => entry.key === key);
+      if (separator < 1) {
+        this.loadIssues.push({ key: null, message: `Expected key=value (got '${override}'), ignored`, source: 'cli', origin: '--set' });
+      } else if (!descriptor) {
+        this.loadIssues.push({ key, message: `Unknown key '${key}' ignored`, source: 'cli', origin: '--set' });
+      } else {
+        this.addValue(layer, descriptor, () => parseConfigInput(descriptor, override.slice(separator + 1)), '--set');
+      }
+    }
+    return layer;
+  }
+
+  // Validates a layer's value, recording every adjustment; invalid values are left out
+  private addValue(layer: ConfigLayer, descriptor: ConfigKeyDescriptor, read: () => unknown, origin: string): void {
+    const { key } = descriptor;
+    const report = (message: string) => this.loadIssues.push({ key, message, source: layer.source, origin });
+    try {
+      const value = validateConfigValue(descriptor, read(), report);
+      if (value !== undefined) {
+        layer.values[key] = value;
+      }
+    } catch (error) {
+      if (!(error instanceof AIRewindError)) {
+        throw error;
+      }
+      report(`${error.message}, ignored`);
+    }
+  }
+
+  // Writes the project file's settings back, including keys set or unset since loading
   save(): void {
-    const content = JSON.stringify(this.config, null, 2);
-    writeFileSync(this.configPath, content);
+    // load() always reads the project file, even when it doesn't exist yet
+    const file = this.files.find(entry => entry.source === 'project');
+    if (file) {
+      this.writeFile(file);
+    }
   }
 
-  createDefault(): void {
-    if (!existsSync(this.configPath)) {
-      const content = JSON.stringify(this.defaults, null, 2);
-      writeFileSync(this.configPath, content);
-      console.log('Created .ai-rewind.json with default configuration');
+  createDefault(): boolean {
+    if (existsSync(this.projectPath)) {
+      return false;
     }
+    // Keys set in the user config are left out, so later edits there still reach this project
+    const inherited = this.files.find(file => file.source === 'user')?.values ?? {};
+    const settings = Object.fromEntries(Object.entries(this.defaults).filter(([key]) => !(key in inherited)));
+    const content = JSON.stringify(settings, null, 2);
+    writeFileSync(this.projectPath, content);
+    return true;
+  }
+
+  // The project file (.ai-rewind.json)
+  get path(): string {
+    return this.projectPath;
+  }
+
+  // The user-level file shared by every project, or null when there is no home directory
+  get userConfigPath(): string | null {
+    return this.userPath;
+  }
+
+  // Problems found in any layer when the configuration was loaded
+  get issues(): ConfigIssue[] {
+    return this.loadIssues;
+  }
+
+  // Applies --set flags on top of everything else
+  setOverrides(overrides: string[]): void {
+    this.overrides = overrides;
+    this.config = this.load();
+  }
+
+  get(key: string): ConfigValue {
+    const descriptor = findDescriptor(key);
+    const sources = this.sources.get(descriptor.key) ?? ['default'];
+    return {
+      key: descriptor.key,
+      value: this.config[descriptor.key] ?? this.defaults[descriptor.key],
+      source: sources[sources.length - 1],
+      sources,
+      description: descriptor.description
+    };
+  }
+
+  // Every setting with its effective value and origin
+  list(): ConfigValue[] {
+    return CONFIG_KEYS.map(descriptor => this.get(descriptor.key));
+  }
+
+  // Parses a command-line value for the key's type, validates it and saves it to the
+  // project file, or to the user file with global
+  set(key: string, input: string, options: { global?: boolean } = {}): ConfigChange {
+    const descriptor = findDescriptor(key);
+    const file = this.writableFile(options.global);
+
+    const issues: ConfigIssue[] = [];
+    const report = (message: string) => issues.push({ key: descriptor.key, message, source: file.source, origin: file.origin });
+    const value = validateConfigValue(descriptor, parseConfigInput(descriptor, input), report);
+    if (value === undefined) {
+      throw new AIRewindError('INVALID_ARGUMENT', issues.map(issue => issue.message).join('; '));
+    }
+    return this.write(file, descriptor.key, value, issues);
+  }
+
+  // Removes the key from the file so the layers below apply again
+  unset(key: string, options: { global?: boolean } = {}): ConfigChange {
+    const descriptor = findDescriptor(key);
+    return this.write(this.writableFile(options.global), descriptor.key, undefined, []);
   }
 
   get excludePatterns(): string[] {
-    return this.config.excludePatterns || this.defaults.excludePatterns!;
+    return this.config.excludePatterns || this.defaults.excludePatterns;
   }
 
   get autoCommitThreshold(): number {
-    return this.config.autoCommitThreshold || this.defaults.autoCommitThreshold!;
+    return this.config.autoCommitThreshold || this.defaults.autoCommitThreshold;
   }
 
   get commitMessageFormat(): string {
-    return this.config.commitMessageFormat || this.defaults.commitMessageFormat!;
+    return this.config.commitMessageFormat || this.defaults.commitMessageFormat;
   }
 
   get maxCommits(): number {
-    return this.config.maxCommits || this.defaults.maxCommits!;
+    return this.config.maxCommits || this.defaults.maxCommits;
   }
 
   get verboseOutput(): boolean {
-    return this.config.verboseOutput || this.defaults.verboseOutput!;
+    return this.config.verboseOutput || this.defaults.verboseOutput;
   }
 
   get defaultBranch(): string {
-    return this.config.defaultBranch || this.defaults.defaultBranch!;
+    return this.config.defaultBranch || this.defaults.defaultBranch;
+  }
+
+  // 0 is meaningful for the retention settings, so only a missing value falls back
+  get backupRetentionCount(): number {
+    return this.config.backupRetentionCount ?? this.defaults.backupRetentionCount;
+  }
+
+  get backupMaxAgeDays(): number {
+    return this.config.backupMaxAgeDays ?? this.defaults.backupMaxAgeDays;
+  }
+
+  get pinnedBackups(): string[] {
+    return this.config.pinnedBackups ?? this.defaults.pinnedBackups;
+  }
+
+  get maxFileSize(): number {
+    return this.config.maxFileSize ?? this.defaults.maxFileSize;
+  }
+
+  get binaryPolicy(): BinaryPolicy {
+    return this.config.binaryPolicy ?? this.defaults.binaryPolicy;
+  }
+
+  get secretPolicy(): SecretPolicy {
+    return this.config.secretPolicy ?? this.defaults.secretPolicy;
   }
 
   getExcludeArgs(): string[] {
@@ -143,4 +434,189 @@ export class Config {
   getAll(): TrackerConfigOptions {
     return this.config;
   }
-}
\ No newline at end of file
+
+  private writableFile(global?: boolean): ConfigFile {
+    const file = this.files.find(entry => entry.source === (global ? 'user' : 'project'));
+    if (!file) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'No user config location; set HOME or XDG_CONFIG_HOME');
+    }
+    // Rewriting a file we couldn't parse would throw away whatever the user had in it
+    if (file.error) {
+      throw new AIRewindError('INVALID_ARGUMENT', `Fix ${file.origin} first: ${file.error}`);
+    }
+    return file;
+  }
+
+  private writeFile(file: ConfigFile): void {
+    mkdirSync(dirname(file.path), { recursive: true });
+    const content = JSON.stringify(file.raw ?? {}, null, 2);
+    writeFileSync(file.path, `${content}\n`);
+  }
+
+  private write(file: ConfigFile, key: ConfigKey, value: unknown, issues: ConfigIssue[]): ConfigChange {
+    const previous = this.get(key).value;
+    const raw = { ...(file.raw ?? {}) };
+    if (value === undefined) {
+      delete raw[key];
+    } else {
+      raw[key] = value;
+    }
+    file.raw = raw;
+    this.writeFile(file);
+    this.config = this.load();
+
+    const current = this.get(key);
+    const change: ConfigChange = { key, previous, value: current.value, issues, configPath: file.path };
+    if (SOURCE_ORDER.indexOf(current.source) > SOURCE_ORDER.indexOf(file.source)) {
+      change.overriddenBy = current.source;
+    }
+    return change;
+  }
+}
+
+function defaultUserConfigPath(): string | null {
+  const base = process.env.XDG_CONFIG_HOME || (homedir() ? join(homedir(), '.config') : '');
+  return base ? join(base, 'ai-rewind', 'config.json') : null;
+}
+
+function tildify(path: string): string {
+  const home = homedir();
+  return home && path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+// maxCommits -> AI_REWIND_MAX_COMMITS
+export function configEnvName(key: ConfigKey): string {
+  return `AI_REWIND_${key.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+}
+
+function findDescriptor(key: string): ConfigKeyDescriptor {
+  const descriptor = CONFIG_KEYS.find(entry => entry.key === key);
+  if (!descriptor) {
+    throw new AIRewindError('INVALID_ARGUMENT', `Unknown config key '${key}'. Valid keys: ${CONFIG_KEYS.map(entry => entry.key).join(', ')}`);
+  }
+  return descriptor;
+}
+
+// Command-line text to a value of the key's type; range checks happen in validateConfigValue
+function parseConfigInput(descriptor: ConfigKeyDescriptor, input: string): unknown {
+  const text = input.trim();
+  switch (descriptor.type) {
+    case 'number':
+    case 'integer':
+      if (text === '' || !Number.isFinite(Number(text))) {
+        throw new AIRewindError('INVALID_ARGUMENT', `${descriptor.key} must be a number (got '${input}')`);
+      }
+      return Number(text);
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') {
+        throw new AIRewindError('INVALID_ARGUMENT', `${descriptor.key} must be true or false (got '${input}')`);
+      }
+      return text === 'true';
+    case 'string[]':
+      // A JSON array, or a comma-separated list for convenience
+      if (text.startsWith('[')) {
+        try {
+          return JSON.parse(text);
+        } catch {
+          throw new AIRewindError('INVALID_ARGUMENT', `${descriptor.key} must be a JSON array or a comma-separated list`);
+        }
+      }
+      return text.split(',').map(entry => entry.trim()).filter(Boolean);
+    default:
+      return input;
+  }
+}
+
+// Returns the value to use (clamped or truncated if needed), or undefined to ignore it;
+// every adjustment is reported
+function validateConfigValue(descriptor: ConfigKeyDescriptor, value: unknown, report: (message: string) => void): unknown {
+  const { key } = descriptor;
+  const reject = (reason: string) => {
+    report(`${key} ${reason}, ignored`);
+    return undefined;
+  };
+
+  switch (descriptor.type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return reject(`must be a number (got ${JSON.stringify(value)})`);
+      }
+      let result = value;
+      if (descriptor.type === 'integer' && !Number.isInteger(result)) {
+        result = Math.floor(result);
+        report(`${key} rounded down from ${value} to ${result}`);
+      }
+      const clamped = Math.min(Math.max(descriptor.min ?? -Infinity, result), descriptor.max ?? Infinity);
+      if (clamped !== result) {
+        report(`${key} clamped from ${result} to ${clamped}`);
+      }
+      return clamped;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : reject(`must be true or false (got ${JSON.stringify(value)})`);
+    case 'string':
+      if (typeof value !== 'string') {
+        return reject(`must be a string (got ${JSON.stringify(value)})`);
+      }
+      if (descriptor.maxLength !== undefined && value.length > descriptor.maxLength) {
+        return reject(`is longer than ${descriptor.maxLength} characters`);
+      }
+      if (descriptor.values && !descriptor.values.includes(value)) {
+        return reject(`must be one of ${descriptor.values.join(', ')} (got ${JSON.stringify(value)})`);
+      }
+      return value;
+    case 'string[]': {
+      if (!Array.isArray(value)) {
+        return reject(`must be an array of strings (got ${JSON.stringify(value)})`);
+      }
+      const entries = value.filter((entry, index) => {
+        if (typeof entry !== 'string') {
+          report(`${key}[${index}] is not a string, dropped`);
+          return false;
+        }
+        if (descriptor.maxLength !== undefined && entry.length > descriptor.maxLength) {
+          report(`${key}[${index}] is longer than ${descriptor.maxLength} characters, dropped`);
+          return false;
+        }
+        return true;
+      });
+      if (descriptor.maxItems !== undefined && entries.length > descriptor.maxItems) {
+        report(`${key} truncated from ${entries.length} to ${descriptor.maxItems} entries`);
+        return entries.slice(0, descriptor.maxItems);
+      }
+      return entries;
+    }
+  }
+}
+
+// JSON Schema for .ai-rewind.json, generated from CONFIG_KEYS (published as ai-rewind.schema.json)
+export function configSchema(): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    $schema: { type: 'string', description: 'Path or URL of this schema' }
+  };
+  for (const descriptor of CONFIG_KEYS) {
+    const property: Record<string, unknown> = {
+      type: descriptor.type === 'string[]' ? 'array' : descriptor.type,
+      description: descriptor.description,
+      default: DEFAULT_CONFIG[descriptor.key]
+    };
+    if (descriptor.min !== undefined) property.minimum = descriptor.min;
+    if (descriptor.max !== undefined) property.maximum = descriptor.max;
+    if (descriptor.type === 'string[]') {
+      property.items = { type: 'string', ...(descriptor.maxLength !== undefined ? { maxLength: descriptor.maxLength } : {}) };
+      if (descriptor.maxItems !== undefined) property.maxItems = descriptor.maxItems;
+    } else if (descriptor.maxLength !== undefined) {
+      property.maxLength = descriptor.maxLength;
+    }
+    if (descriptor.values) property.enum = descriptor.values;
+    properties[descriptor.key] = property;
+  }
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'AI Rewind configuration (.ai-rewind.json)',
+    type: 'object',
+    properties,
+    additionalProperties: false
+  };
+}
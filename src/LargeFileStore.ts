@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import { closeSync, copyFileSync, existsSync, mkdirSync, openSync, readFileSync, readSync, readdirSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { AIRewindError } from './errors.js';
+import type { BinaryPolicy, LargeFileEntry } from './types.js';
+
+// Binary files and files over maxFileSize are kept out of git history. With the 'store' policy
+// their content goes to a content-addressed store inside the tracking directory, one copy per
+// distinct content, and each checkpoint lists the files it covers in AI-Large-File trailers.
+export const LARGE_FILE_TRAILER = 'AI-Large-File';
+
+const CHUNK_SIZE = 1024 * 1024;
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+const BINARY_SNIFF_BYTES = 8000;
+
+interface HashCacheEntry {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+export class LargeFileStore {
+  private root: string;
+  // Digest per path, reused while size and mtime are unchanged
+  private cache: Record<string, HashCacheEntry> | null = null;
+
+  constructor(gitDir: string, private workTree: string) {
+    this.root = join(gitDir, 'large-files');
+  }
+
+  hash(path: string): string {
+    const fullPath = join(this.workTree, path);
+    const { size, mtimeMs } = statSync(fullPath);
+    const cache = this.loadCache();
+    const cached = cache[path];
+    if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+      return cached.hash;
+    }
+
+    const hash = digestFile(fullPath);
+    cache[path] = { size, mtimeMs, hash };
+    this.saveCache();
+    return hash;
+  }
+
+  has(hash: string): boolean {
+    return existsSync(this.objectPath(hash));
+  }
+
+  // Copies the file into the store unless that content is already there
+  put(path: string, hash: string): void {
+    this.putFile(join(this.workTree, path), hash);
+  }
+
+  // Like put, for content from outside the work tree (e.g. an imported bundle), so it is
+  // checked against the hash it is filed under
+  add(source: string, hash: string): void {
+    if (digestFile(source) !== hash) {
+      throw new AIRewindError('INVALID_ARGUMENT', `Large file content does not match its hash ${hash.slice(0, 12)}`);
+    }
+    this.putFile(source, hash);
+  }
+
+  restore(hash: string, path: string): void {
+    const fullPath = join(this.workTree, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    copyFileSync(this.objectPath(hash), fullPath);
+  }
+
+  // Objects and bytes held by the store
+  usage(): { objects: number; bytes: number } {
+    const usage = { objects: 0, bytes: 0 };
+    for (const object of this.listObjects()) {
+      usage.objects++;
+      usage.bytes += object.bytes;
+    }
+    return usage;
+  }
+
+  // Deletes the stored content no checkpoint refers to anymore; dryRun only counts it
+  collect(referenced: Set<string>, dryRun = false): { objects: number; bytes: number } {
+    const reclaimed = { objects: 0, bytes: 0 };
+    for (const object of this.listObjects()) {
+      if (referenced.has(object.hash)) {
+        continue;
+      }
+      reclaimed.objects++;
+      reclaimed.bytes += object.bytes;
+      if (!dryRun) {
+        rmSync(this.objectPath(object.hash), { force: true });
+      }
+    }
+    return reclaimed;
+  }
+
+  private listObjects(): { hash: string; bytes: number }[] {
+    const objects: { hash: string; bytes: number }[] = [];
+    if (!existsSync(this.root)) {
+      return objects;
+    }
+    for (const prefix of readdirSync(this.root)) {
+      if (!/^[0-9a-f]{2}$/.test(prefix)) {
+        continue;
+      }
+      for (const name of readdirSync(join(this.root, prefix))) {
+        // Partial copies belong to a put still in progress
+        if (!name.endsWith('.partial')) {
+          objects.push({ hash: `${prefix}${name}`, bytes: statSync(join(this.root, prefix, name)).size });
+        }
+      }
+    }
+    return objects;
+  }
+
+  objectPath(hash: string): string {
+    return join(this.root, hash.slice(0, 2), hash.slice(2));
+  }
+
+  private putFile(source: string, hash: string): void {
+    const objectPath = this.objectPath(hash);
+    if (existsSync(objectPath)) {
+      return;
+    }
+    mkdirSync(dirname(objectPath), { recursive: true });
+    // Copy then rename, so an interrupted copy never leaves a truncated object behind
+    const partial = `${objectPath}.partial`;
+    copyFileSync(source, partial);
+    renameSync(partial, objectPath);
+  }
+
+  private get cachePath(): string {
+    return join(this.root, 'hash-cache.json');
+  }
+
+  private loadCache(): Record<string, HashCacheEntry> {
+    if (!this.cache) {
+      let cache: Record<string, HashCacheEntry>;
+      try {
+        cache = JSON.parse(readFileSync(this.cachePath, 'utf-8'));
+      } catch {
+        cache = {};
+      }
+      this.cache = cache;
+    }
+    return this.cache;
+  }
+
+  private saveCache(): void {
+    mkdirSync(this.root, { recursive: true });
+    writeFileSync(this.cachePath, JSON.stringify(this.cache));
+  }
+}
+
+function digestFile(fullPath: string): string {
+  const digest = createHash('sha256');
+  const buffer = Buffer.alloc(CHUNK_SIZE);
+  const fd = openSync(fullPath, 'r');
+  try {
+    let read = readSync(fd, buffer, 0, CHUNK_SIZE, null);
+    while (read > 0) {
+      digest.update(buffer.subarray(0, read));
+      read = readSync(fd, buffer, 0, CHUNK_SIZE, null);
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return digest.digest('hex');
+}
+
+export function isBinaryFile(fullPath: string): boolean {
+  const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+  const fd = openSync(fullPath, 'r');
+  try {
+    const read = readSync(fd, buffer, 0, BINARY_SNIFF_BYTES, 0);
+    return buffer.subarray(0, read).includes(0);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// "<policy> <size> <sha256 or -> <binary|text> <path>"; the path goes last because it may contain spaces
+export function formatLargeFileTrailer(entry: LargeFileEntry): string {
+  return `${LARGE_FILE_TRAILER}: ${entry.policy} ${entry.size} ${entry.hash ?? '-'} ${entry.binary ? 'binary' : 'text'} ${entry.path}`;
+}
+
+export function parseLargeFileTrailers(values: string): LargeFileEntry[] {
+  const entries: LargeFileEntry[] = [];
+  for (const line of values.split('\n')) {
+    const match = line.trim().match(/^(skip|store|metadata) (\d+) ([0-9a-f]{64}|-) (binary|text) (.+)$/);
+    if (match) {
+      entries.push({
+        path: match[5],
+        size: parseInt(match[2]),
+        policy: match[1] as BinaryPolicy,
+        hash: match[3] === '-' ? null : match[3],
+        binary: match[4] === 'binary'
+      });
+    }
+  }
+  return entries;
+}
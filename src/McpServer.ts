@@ -0,0 +1,516 @@
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { AIRewind } from './AIRewind.js';
+import { AIRewindError, getErrorCode } from './errors.js';
+import type { ConflictResolution, DiffFormat } from './types.js';
+
+// Model Context Protocol server over stdio (newline-delimited JSON-RPC 2.0).
+// Each tool is a thin wrapper around an AIRewind method; destructive tools
+// refuse to run unless called with `confirm: true`.
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+type Args = Record<string, unknown>;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Args;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties: Record<string, unknown>; required?: string[] };
+  annotations: { readOnlyHint: boolean; destructiveHint: boolean };
+  run: (tracker: AIRewind, args: Args) => Promise<unknown>;
+}
+
+const CONFIRM_SCHEMA = {
+  type: 'boolean',
+  description: 'Must be true to change the working tree; protects against accidental calls',
+};
+
+const TOOLS: McpTool[] = [
+  {
+    name: 'commit',
+    description: 'Save the current working tree as a checkpoint in the shadow repository',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          description: 'Checkpoint message (default: commitMessageFormat)',
+        },
+        agent: { type: 'string', description: 'Agent or model making the change' },
+        session: { type: 'string', description: 'Conversation or session id' },
+        promptRef: { type: 'string', description: 'Prompt id, transcript path or URL' },
+      },
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    run: (tracker, args) =>
+      tracker.commit(optionalString(args, 'message'), {
+        agent: optionalString(args, 'agent'),
+        session: optionalString(args, 'session'),
+        promptRef: optionalString(args, 'promptRef'),
+      }),
+  },
+  {
+    name: 'log',
+    description: 'List recent checkpoints, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        count: { type: 'integer', minimum: 1, description: 'Number of checkpoints (default: 20)' },
+        agent: { type: 'string', description: 'Only checkpoints made by this agent' },
+        session: { type: 'string', description: 'Only checkpoints from this session' },
+        mainBranch: { type: 'string', description: 'Only checkpoints taken while the main repository was on this branch' },
+      },
+    },
+    annotations: { readOnlyHint: true, destructiveHint: false },
+    run: (tracker, args) =>
+      tracker.log(optionalInteger(args, 'count') ?? 20, {
+        agent: optionalString(args, 'agent'),
+        session: optionalString(args, 'session'),
+        mainBranch: optionalString(args, 'mainBranch'),
+      }),
+  },
+  {
+    name: 'diff',
+    description:
+      'Show uncommitted changes, the patch of a specific checkpoint, or the changes between two points',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        commit: {
+          type: 'string',
+          description:
+            'Checkpoint hash, backup tag, named checkpoint or experiment (default: uncommitted changes)',
+        },
+        to: {
+          type: 'string',
+          description: 'Second point; the result covers everything between commit and to',
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only these paths or globs, relative to the project root',
+        },
+        format: {
+          type: 'string',
+          enum: ['patch', 'stat', 'name-only', 'word-diff'],
+          description: 'Output format (default: patch)',
+        },
+        sinceMainCommit: {
+          type: 'boolean',
+          description: "Only the changes checkpointed since the main repository's latest commit",
+        },
+      },
+    },
+    annotations: { readOnlyHint: true, destructiveHint: false },
+    run: (tracker, args) => {
+      const format = optionalString(args, 'format') ?? 'patch';
+      if (!['patch', 'stat', 'name-only', 'word-diff'].includes(format)) {
+        throw new AIRewindError(
+          'INVALID_ARGUMENT',
+          "'format' must be patch, stat, name-only or word-diff"
+        );
+      }
+      return tracker.diff(optionalString(args, 'commit'), {
+        to: optionalString(args, 'to'),
+        paths: args.paths === undefined ? undefined : requiredStringArray(args, 'paths'),
+        format: format as DiffFormat,
+        sinceMainCommit: optionalBoolean(args, 'sinceMainCommit'),
+      });
+    },
+  },
+  {
+    name: 'rollback',
+    description:
+      'Undo the last N checkpoints, or roll back to a hash, message or time. Returns the plan only unless dryRun is false and confirm is true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        count: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Number of checkpoints to undo (default: 1)',
+        },
+        to: {
+          type: 'string',
+          description: 'Roll back to this checkpoint hash or tag instead of a count',
+        },
+        toMessage: {
+          type: 'string',
+          description: 'Roll back to the latest checkpoint whose message contains this text',
+        },
+        at: {
+          type: 'string',
+          description: 'Roll back to the latest checkpoint at or before this time (ISO 8601)',
+        },
+        ago: {
+          type: 'string',
+          description: 'Roll back to the latest checkpoint older than e.g. 30m, 2h, 1d',
+        },
+        dryRun: { type: 'boolean', description: 'Only return the plan (default: true)' },
+        force: {
+          type: 'boolean',
+          description: 'Discard uncommitted changes and ignore a dirty main repository',
+        },
+        merge: {
+          type: 'boolean',
+          description:
+            'Keep uncommitted (human) edits by three-way merging them onto the target; overlaps are left as conflict markers',
+        },
+        confirm: CONFIRM_SCHEMA,
+      },
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    run: (tracker, args) => {
+      const dryRun = optionalBoolean(args, 'dryRun') ?? true;
+      if (!dryRun) {
+        requireConfirm(args, 'rollback');
+      }
+      const target = {
+        count: optionalInteger(args, 'count'),
+        to: optionalString(args, 'to'),
+        toMessage: optionalString(args, 'toMessage'),
+        at: optionalString(args, 'at'),
+        ago: optionalString(args, 'ago'),
+      };
+      return tracker.rollback(target, {
+        dryRun,
+        force: optionalBoolean(args, 'force'),
+        merge: optionalBoolean(args, 'merge'),
+      });
+    },
+  },
+  {
+    name: 'revert',
+    description:
+      'Undo a single checkpoint as a new checkpoint, keeping later work. Conflicts abort unless onConflict is ours or theirs. Returns the files and conflicts only unless dryRun is false and confirm is true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        commit: { type: 'string', description: 'Checkpoint hash or revision to undo' },
+        onConflict: {
+          type: 'string',
+          enum: ['abort', 'ours', 'theirs'],
+          description: 'ours keeps the later changes, theirs forces the revert (default: abort)',
+        },
+        dryRun: { type: 'boolean', description: 'Only return the files and conflicts (default: true)' },
+        confirm: CONFIRM_SCHEMA,
+      },
+      required: ['commit'],
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    run: (tracker, args) => {
+      const onConflict = optionalString(args, 'onConflict') ?? 'abort';
+      if (!['abort', 'ours', 'theirs'].includes(onConflict)) {
+        throw new AIRewindError('INVALID_ARGUMENT', "'onConflict' must be abort, ours or theirs");
+      }
+      const dryRun = optionalBoolean(args, 'dryRun') ?? true;
+      if (!dryRun) {
+        requireConfirm(args, 'revert');
+      }
+      return tracker.revert(requiredString(args, 'commit'), {
+        dryRun,
+        onConflict: onConflict as ConflictResolution,
+      });
+    },
+  },
+  {
+    name: 'rollbackFile',
+    description:
+      'Restore files, directories or globs to a checkpoint; files created since are deleted, files deleted since are recreated',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Paths, directories or globs (e.g. "src/**/*.ts") relative to the project root',
+        },
+        commit: { type: 'string', description: 'Checkpoint to restore from (default: HEAD~1)' },
+        dryRun: { type: 'boolean', description: 'Only return the per-file plan' },
+        confirm: CONFIRM_SCHEMA,
+      },
+      required: ['paths'],
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    run: (tracker, args) => {
+      const dryRun = optionalBoolean(args, 'dryRun') ?? false;
+      if (!dryRun) {
+        requireConfirm(args, 'rollbackFile');
+      }
+      return tracker.rollbackFiles(requiredStringArray(args, 'paths'), {
+        commit: optionalString(args, 'commit'),
+        dryRun,
+      });
+    },
+  },
+  {
+    name: 'forward',
+    description: 'Reset the working tree to a backup tag or checkpoint (e.g. to undo a rollback)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Backup tag or checkpoint hash' },
+        force: { type: 'boolean', description: 'Discard uncommitted changes' },
+        confirm: CONFIRM_SCHEMA,
+      },
+      required: ['target', 'confirm'],
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    run: (tracker, args) => {
+      requireConfirm(args, 'forward');
+      return tracker.forward(requiredString(args, 'target'), { force: optionalBoolean(args, 'force') });
+    },
+  },
+  {
+    name: 'listBackups',
+    description: 'List backup tags created before each rollback',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true, destructiveHint: false },
+    run: (tracker) => tracker.listBackups(),
+  },
+  {
+    name: 'checkpoint',
+    description:
+      'Tag the current state with a name (e.g. before-db-migration) that is never pruned; uncommitted changes are checkpointed first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: "Letters, digits, '.', '_' and '-'" },
+        message: { type: 'string', description: 'What the checkpoint marks' },
+      },
+      required: ['name'],
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    run: (tracker, args) =>
+      tracker.createCheckpoint(requiredString(args, 'name'), {
+        message: optionalString(args, 'message'),
+      }),
+  },
+  {
+    name: 'listCheckpoints',
+    description: 'List named checkpoints with their diffstat against the current state',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true, destructiveHint: false },
+    run: (tracker) => tracker.listCheckpoints(),
+  },
+  {
+    name: 'restoreCheckpoint',
+    description: 'Reset the working tree to a named checkpoint; a backup tag is created first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Checkpoint name' },
+        force: { type: 'boolean', description: 'Discard uncommitted changes' },
+        confirm: CONFIRM_SCHEMA,
+      },
+      required: ['name', 'confirm'],
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    run: (tracker, args) => {
+      requireConfirm(args, 'restoreCheckpoint');
+      return tracker.restoreCheckpoint(requiredString(args, 'name'), {
+        force: optionalBoolean(args, 'force'),
+      });
+    },
+  },
+];
+
+export class McpServer {
+  constructor(
+    private tracker: AIRewind,
+    private version: string = '1.0.0'
+  ) {}
+
+  // Serve requests until the input stream closes
+  async start(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      const response = await this.handleMessage(line);
+      if (response) {
+        output.write(`${JSON.stringify(response)}\n`);
+      }
+    }
+  }
+
+  // Returns null for notifications, which never get a response
+  async handleMessage(line: string): Promise<JsonRpcResponse | null> {
+    let request: JsonRpcRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return this.error(null, PARSE_ERROR, 'Parse error');
+    }
+    if (!request || typeof request !== 'object' || typeof request.method !== 'string') {
+      return this.error(null, INVALID_REQUEST, 'Invalid request');
+    }
+
+    const id = request.id ?? null;
+    const isNotification = request.id === undefined;
+    try {
+      const result = await this.dispatch(request.method, request.params ?? {});
+      return isNotification ? null : { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (isNotification) {
+        return null;
+      }
+      if (error instanceof JsonRpcError) {
+        return this.error(id, error.code, error.message);
+      }
+      return this.error(id, INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async dispatch(method: string, params: Args): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: { name: 'ai-rewind', version: this.version },
+        };
+      }
+      case 'ping':
+        return {};
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return null;
+      case 'tools/list':
+        return {
+          tools: TOOLS.map(({ name, description, inputSchema, annotations }) => ({
+            name,
+            description,
+            inputSchema,
+            annotations,
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(params);
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(params: Args): Promise<unknown> {
+    const tool = TOOLS.find((candidate) => candidate.name === params.name);
+    if (!tool) {
+      throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+    }
+    const args =
+      params.arguments && typeof params.arguments === 'object' ? (params.arguments as Args) : {};
+
+    // Tool failures are results the model can read and react to, not protocol errors
+    try {
+      const result = await tool.run(this.tracker, args);
+      return { content: [{ type: 'text', text: JSON.stringify(result ?? null, null, 2) }] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: 'text', text: `${getErrorCode(error)}: ${message}` }],
+        isError: true,
+      };
+    }
+  }
+
+  private error(id: string | number | null, code: number, message: string): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+}
+
+class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function requireConfirm(args: Args, tool: string): void {
+  if (args.confirm !== true) {
+    throw new AIRewindError(
+      'CONFIRMATION_REQUIRED',
+      `${tool} changes the working tree; call it again with confirm: true`
+    );
+  }
+}
+
+function optionalString(args: Args, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new AIRewindError('INVALID_ARGUMENT', `'${key}' must be a string`);
+  }
+  return value;
+}
+
+function requiredString(args: Args, key: string): string {
+  const value = optionalString(args, key);
+  if (!value) {
+    throw new AIRewindError('INVALID_ARGUMENT', `'${key}' is required`);
+  }
+  return value;
+}
+
+function requiredStringArray(args: Args, key: string): string[] {
+  const value = args[key];
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((item) => typeof item !== 'string')
+  ) {
+    throw new AIRewindError('INVALID_ARGUMENT', `'${key}' must be a non-empty array of strings`);
+  }
+  return value;
+}
+
+function optionalInteger(args: Args, key: string): number | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new AIRewindError('INVALID_ARGUMENT', `'${key}' must be an integer`);
+  }
+  return value;
+}
+
+function optionalBoolean(args: Args, key: string): boolean | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'boolean') {
+    throw new AIRewindError('INVALID_ARGUMENT', `'${key}' must be a boolean`);
+  }
+  return value;
+}
@@ -0,0 +1,222 @@
+import { emitKeypressEvents } from 'readline';
+import type { Writable } from 'stream';
+import type { ReadStream } from 'tty';
+import { stripVTControlCharacters } from 'util';
+import chalk from 'chalk';
+import { AIRewindError } from './errors.js';
+import type { RestorePoint, RestorePreview } from './types.js';
+
+// Full-screen list of restore points for `ai-rewind pick`. The picker only
+// chooses an entry; rolling back or restoring is left to the caller so it
+// goes through the usual confirmation and backup logic.
+
+export interface PickerOptions {
+  input?: ReadStream;
+  output?: Writable & { rows?: number; columns?: number };
+  loadPreview: (point: RestorePoint) => Promise<RestorePreview>;
+}
+
+export interface PickerKey {
+  name?: string;
+  ctrl?: boolean;
+}
+
+// Rows used by the title, help line and separators
+const CHROME_ROWS = 4;
+
+export class Picker {
+  private selected = 0;
+  private offset = 0;
+  private previews = new Map<number, RestorePreview | Error>();
+  private loading = new Set<number>();
+  private done: ((point: RestorePoint | null) => void) | null = null;
+
+  constructor(
+    private points: RestorePoint[],
+    private options: PickerOptions
+  ) {}
+
+  get selectedPoint(): RestorePoint | null {
+    return this.points[this.selected] ?? null;
+  }
+
+  // Resolves with the chosen restore point, or null when cancelled
+  async run(): Promise<RestorePoint | null> {
+    const input = this.options.input ?? (process.stdin as ReadStream);
+    if (!input.isTTY) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'pick needs an interactive terminal');
+    }
+    if (this.points.length === 0) {
+      return null;
+    }
+
+    const output = this.options.output ?? process.stdout;
+    const onKeypress = (_: string, key: PickerKey) => {
+      const action = this.handleKey(key);
+      if (action === 'select' || action === 'cancel') {
+        this.done?.(action === 'select' ? this.selectedPoint : null);
+      } else if (action === 'move') {
+        this.draw();
+      }
+    };
+
+    emitKeypressEvents(input);
+    input.setRawMode(true);
+    input.resume();
+    input.on('keypress', onKeypress);
+    // Alternate screen buffer keeps the user's scrollback intact
+    output.write('\x1b[?1049h\x1b[?25l');
+
+    try {
+      this.draw();
+      return await new Promise<RestorePoint | null>((resolve) => {
+        this.done = resolve;
+      });
+    } finally {
+      this.done = null;
+      input.off('keypress', onKeypress);
+      input.setRawMode(false);
+      input.pause();
+      output.write('\x1b[?25h\x1b[?1049l');
+    }
+  }
+
+  handleKey(key: PickerKey): 'move' | 'select' | 'cancel' | null {
+    if ((key.ctrl && key.name === 'c') || key.name === 'escape' || key.name === 'q') {
+      return 'cancel';
+    }
+    if (key.name === 'return' || key.name === 'enter') {
+      return 'select';
+    }
+
+    const page = this.listRows();
+    const moves: Record<string, number> = {
+      up: -1,
+      k: -1,
+      down: 1,
+      j: 1,
+      pageup: -page,
+      pagedown: page,
+      home: -this.points.length,
+      end: this.points.length,
+    };
+    const delta = key.name ? moves[key.name] : undefined;
+    if (delta === undefined) {
+      return null;
+    }
+
+    const next = Math.min(this.points.length - 1, Math.max(0, this.selected + delta));
+    if (next === this.selected) {
+      return null;
+    }
+    this.selected = next;
+    return 'move';
+  }
+
+  renderFrame(): string {
+    const rows = this.listRows();
+    // Some terminals (and pseudo-terminals) report a size of 0
+    const width = this.options.output?.columns || process.stdout.columns || 80;
+    if (this.selected < this.offset) {
+      this.offset = this.selected;
+    } else if (this.selected >= this.offset + rows) {
+      this.offset = this.selected - rows + 1;
+    }
+
+    const lines = [
+      chalk.cyan.bold('AI Rewind - Pick a restore point'),
+      chalk.gray('↑/↓ move  Enter roll back / restore  q cancel'),
+    ];
+    for (let i = this.offset; i < Math.min(this.points.length, this.offset + rows); i++) {
+      const line = truncate(this.formatPoint(this.points[i]), width - 2);
+      lines.push(
+        i === this.selected ? chalk.inverse(`> ${stripVTControlCharacters(line)}`) : `  ${line}`
+      );
+    }
+    lines.push(chalk.gray('─'.repeat(Math.min(width, 80))));
+    lines.push(...this.formatPreview(this.previewRows()));
+    return lines.join('\n');
+  }
+
+  private formatPoint(point: RestorePoint): string {
+    const date = point.commit.date.slice(0, 16).replace('T', ' ');
+    const label =
+      point.kind === 'backup'
+        ? chalk.green(point.tag)
+        : point.count === 0
+          ? chalk.green('current')
+          : chalk.yellow(`rollback ${point.count}`);
+    return `${chalk.yellow(point.commit.shortHash)} ${chalk.cyan(date)} ${label} ${point.commit.subject}`;
+  }
+
+  private formatPreview(maxRows: number): string[] {
+    const point = this.selectedPoint;
+    if (!point) {
+      return [];
+    }
+    if (point.kind === 'checkpoint' && point.count === 0) {
+      return [chalk.gray('Current checkpoint, nothing to roll back')];
+    }
+
+    const preview = this.previews.get(this.selected);
+    if (!preview) {
+      this.loadPreview(this.selected, point);
+      return [chalk.gray('Loading preview...')];
+    }
+    if (preview instanceof Error) {
+      return [chalk.red(`Preview failed: ${preview.message}`)];
+    }
+    const stat = preview.stat.split('\n').filter(Boolean);
+    if (stat.length === 0) {
+      return [chalk.gray('No file differences from the current checkpoint')];
+    }
+    // Keep the summary line when the file list has to be cut
+    return stat.length > maxRows ? [...stat.slice(0, maxRows - 1), stat[stat.length - 1]] : stat;
+  }
+
+  private loadPreview(index: number, point: RestorePoint): void {
+    if (this.loading.has(index)) {
+      return;
+    }
+    this.loading.add(index);
+    this.options
+      .loadPreview(point)
+      .then(
+        (preview) => this.previews.set(index, preview),
+        (error) =>
+          this.previews.set(index, error instanceof Error ? error : new Error(String(error)))
+      )
+      .then(() => {
+        if (this.selected === index && this.done) {
+          this.draw();
+        }
+      });
+  }
+
+  private draw(): void {
+    const output = this.options.output ?? process.stdout;
+    output.write(`\x1b[H\x1b[2J${this.renderFrame()}`);
+  }
+
+  private terminalRows(): number {
+    return this.options.output?.rows || process.stdout.rows || 24;
+  }
+
+  // The list takes up to half of the screen, the preview gets the rest
+  private listRows(): number {
+    return Math.max(3, Math.floor((this.terminalRows() - CHROME_ROWS) / 2));
+  }
+
+  private previewRows(): number {
+    return Math.max(3, this.terminalRows() - CHROME_ROWS - this.listRows());
+  }
+}
+
+function truncate(text: string, width: number): string {
+  // Measure without color codes so truncation doesn't cut an escape sequence in half
+  const plain = stripVTControlCharacters(text);
+  if (plain.length <= width) {
+    return text;
+  }
+  return `${plain.slice(0, Math.max(0, width - 1))}…`;
+}
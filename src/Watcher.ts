@@ -0,0 +1,183 @@
+import { type FSWatcher, watch } from 'fs';
+import { relative, resolve } from 'path';
+import type { AIRewind } from './AIRewind.js';
+import type { Config } from './Config.js';
+import { AIRewindError } from './errors.js';
+import { isIgnoredBy, parseIgnoreFile, readIgnoreFile, type IgnoreEntry } from './ignore.js';
+import type { CheckpointMetadata, CommitEntry } from './types.js';
+
+export interface WatchOptions {
+  // Number of changed files that triggers a checkpoint (defaults to autoCommitThreshold)
+  threshold?: number;
+  // Quiet period after the last write before changes are evaluated
+  debounceMs?: number;
+  // Idle period after which any pending changes are checkpointed
+  idleMs?: number;
+  // Recorded on every auto-checkpoint (falls back to AI_REWIND_* environment variables)
+  metadata?: CheckpointMetadata;
+  onCheckpoint?: (event: WatchCheckpointEvent) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface WatchCheckpointEvent {
+  reason: 'threshold' | 'idle';
+  files: string[];
+  message: string;
+  commit?: CommitEntry;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const DEFAULT_IDLE_MS = 60_000;
+
+export class Watcher {
+  private fsWatcher: FSWatcher | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private busy = false;
+  // Reason for the evaluation to run once the current commit finishes
+  private rerun: 'threshold' | 'idle' | null = null;
+  private readonly threshold: number;
+  private readonly debounceMs: number;
+  private readonly idleMs: number;
+  // excludePatterns followed by .ai-rewindignore as it was when watching started,
+  // in the order git applies them
+  private readonly ignoreEntries: IgnoreEntry[];
+
+  constructor(
+    private tracker: AIRewind,
+    private workTree: string,
+    configManager: Config,
+    private options: WatchOptions = {}
+  ) {
+    this.threshold = options.threshold ?? configManager.autoCommitThreshold;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.idleMs = options.idleMs ?? DEFAULT_IDLE_MS;
+    this.ignoreEntries = [
+      ...configManager.excludePatterns.map((pattern, index) => ({ line: index + 1, pattern, negated: false })),
+      ...parseIgnoreFile(readIgnoreFile(workTree).content)
+    ];
+
+    if (!Number.isInteger(this.threshold) || this.threshold < 1) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Watch threshold must be a positive integer');
+    }
+    if (this.debounceMs < 0 || this.idleMs < 0) {
+      throw new AIRewindError('INVALID_ARGUMENT', 'Watch timings must not be negative');
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.fsWatcher !== null;
+  }
+
+  start(): void {
+    if (this.fsWatcher) {
+      return;
+    }
+
+    this.fsWatcher = watch(this.workTree, { recursive: true }, (_event, filename) => {
+      if (filename) {
+        this.handleChange(filename.toString());
+      }
+    });
+    this.fsWatcher.on('error', (error) => this.reportError(error));
+  }
+
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.fsWatcher?.close();
+    this.fsWatcher = null;
+  }
+
+  private handleChange(filename: string): void {
+    const relativePath = relative(this.workTree, resolve(this.workTree, filename));
+    if (!relativePath || relativePath.startsWith('..') || this.isIgnored(relativePath)) {
+      return;
+    }
+
+    // Bursts of writes (formatters, codegen, multi-file edits) collapse into one evaluation
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.evaluate('threshold');
+    }, this.debounceMs);
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      void this.evaluate('idle');
+    }, this.idleMs);
+  }
+
+  private isIgnored(relativePath: string): boolean {
+    const normalized = relativePath.replace(/\\/g, '/');
+    // Git writes inside the tracking directories never count as changes
+    if (
+      normalized === '.git' ||
+      normalized.startsWith('.git/') ||
+      normalized === '.git-ai-tracking' ||
+      normalized.startsWith('.git-ai-tracking/')
+    ) {
+      return true;
+    }
+    return isIgnoredBy(normalized, this.ignoreEntries);
+  }
+
+  private async evaluate(reason: 'threshold' | 'idle'): Promise<void> {
+    if (!this.fsWatcher) {
+      return;
+    }
+    if (this.busy) {
+      // An idle timeout commits whatever is pending, so it outranks a threshold check
+      this.rerun = this.rerun === 'idle' ? 'idle' : reason;
+      return;
+    }
+
+    this.busy = true;
+    try {
+      const files = await this.tracker.getChangedFiles();
+      const shouldCommit = reason === 'idle' ? files.length > 0 : files.length >= this.threshold;
+
+      if (shouldCommit) {
+        const message =
+          reason === 'idle'
+            ? `WIP: Auto-checkpoint after idle (${files.length} file(s) changed)`
+            : `WIP: Auto-checkpoint (${files.length} files changed)`;
+        const result = await this.tracker.commit(message, this.options.metadata);
+        if (result.committed) {
+          this.options.onCheckpoint?.({ reason, files, message, commit: result.commit });
+        }
+      }
+    } catch (error) {
+      this.reportError(error);
+    } finally {
+      this.busy = false;
+    }
+
+    // Changes that arrived while committing get their own evaluation
+    const rerun = this.rerun;
+    if (rerun) {
+      this.rerun = null;
+      await this.evaluate(rerun);
+    }
+  }
+
+  private reportError(error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.options.onError) {
+      this.options.onError(err);
+    } else {
+      console.error(err.message);
+    }
+  }
+}
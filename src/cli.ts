@@ -1,8 +1,58 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, CommanderError } from 'commander';
 import chalk from 'chalk';
+import ora from 'ora';
 import { AIRewind } from './AIRewind.js';
+import { AIRewindError } from './errors.js';
+import { findHookProject, isHookEvent, parseHookPayload } from './hooks.js';
+import type { DiffHunk } from './hunks.js';
+import type { ConflictResolution, DiffFormat, HookResult, RollbackTarget } from './types.js';
+import {
+  formatConflicts,
+  formatHunk,
+  renderBackupDetails,
+  renderBackupPrune,
+  renderBackups,
+  renderBundleExport,
+  renderBundleImport,
+  renderCheckpoint,
+  renderCheckpointRestore,
+  renderCheckpoints,
+  renderCommit,
+  renderCompaction,
+  renderDiff,
+  renderExperimentAdopt,
+  renderExperimentComparison,
+  renderExperimentSwitch,
+  renderExperiments,
+  renderFileRollback,
+  renderForward,
+  renderForwardPreview,
+  renderHook,
+  renderHookInstall,
+  renderHunkList,
+  renderHunkRollback,
+  renderIgnoreAdd,
+  renderIgnoreChecks,
+  renderIgnoreList,
+  renderIgnoreUntrack,
+  renderInit,
+  renderInstall,
+  renderJson,
+  renderJsonError,
+  renderLog,
+  renderPromote,
+  renderRevert,
+  renderRollback,
+  renderRollbackPlan,
+  renderConfig,
+  renderConfigChange,
+  renderConfigValue,
+  renderSecretScan,
+  renderStats,
+  renderStatus
+} from './render.js';
 import { readFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
@@ -31,7 +81,17 @@ function checkGitAvailable(): boolean {
   }
 }
 
+// Machine-readable mode: no spinners, no colors, one JSON document on stdout
+const jsonMode = process.argv.includes('--json');
+if (jsonMode) {
+  chalk.level = 0;
+}
+
 if (!checkGitAvailable()) {
+  if (jsonMode) {
+    console.log(renderJsonError('ai-rewind', new AIRewindError('GIT_UNAVAILABLE', 'Git is not installed or not in PATH')));
+    process.exit(1);
+  }
   console.error(chalk.red('Error: Git is not installed or not in PATH'));
   console.error(chalk.yellow('Please install Git from https://git-scm.com/downloads'));
   process.exit(1);
@@ -40,10 +100,126 @@ if (!checkGitAvailable()) {
 const program = new Command();
 const tracker = new AIRewind();
 
+// Usage errors (unknown option or command, missing argument) become JSON documents as well;
+// set before any command is added so subcommands inherit it
+if (jsonMode) {
+  program.exitOverride().configureOutput({
+    outputError: () => {
+      // Reported below as a JSON document instead
+    }
+  });
+}
+
+// Repeatable options such as --set and --co-author keep every occurrence
+function collectRepeated(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+function configOverrides(): string[] {
+  return program.opts<{ set?: string[] }>().set ?? [];
+}
+
+// Config commands show configuration problems in their own output
+program.hook('preAction', (_, actionCommand) => {
+  if (configOverrides().length > 0) {
+    tracker.setConfigOverrides(configOverrides());
+  }
+  if (actionCommand.name() === 'config' || actionCommand.parent?.name() === 'config') {
+    return;
+  }
+  for (const issue of tracker.configIssues) {
+    console.warn(chalk.yellow(`Warning: ${issue.origin}: ${issue.message}`));
+  }
+});
+
+// Run a task behind a spinner; the spinner is cleared before results are printed
+async function withSpinner<T>(text: string, task: () => Promise<T>): Promise<T> {
+  if (jsonMode) {
+    return task();
+  }
+  const spinner = ora(text).start();
+  try {
+    const result = await task();
+    spinner.stop();
+    return result;
+  } catch (error) {
+    spinner.fail(text.replace(/\.\.\.$/, ' failed'));
+    throw error;
+  }
+}
+
+// Shared action wrapper: prints the rendered result, or the JSON document with --json
+async function runCommand<T>(command: string, task: () => Promise<T>, render: (result: T) => string): Promise<void> {
+  try {
+    const result = await task();
+    console.log(jsonMode ? renderJson(command, result) : render(result));
+  } catch (error) {
+    if (jsonMode) {
+      console.log(renderJsonError(command, error));
+    } else {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    }
+    process.exit(1);
+  }
+}
+
+// Number of operands given after "--" to a subcommand, undefined without one. Commander takes
+// the "--" out of command.args (it doesn't record where it was) but keeps everything after it,
+// in order, at the end, so counting the arguments after the first "--" following the command's
+// name is enough
+function separatedOperands(command: Command): number | undefined {
+  const args = process.argv.slice(2);
+  const separator = args.indexOf('--', args.indexOf(command.name()) + 1);
+  return separator === -1 ? undefined : Math.min(args.length - separator - 1, command.args.length);
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const count = value ? parseInt(value) : fallback;
+  if (isNaN(count) || count < 1) {
+    throw new AIRewindError('INVALID_ARGUMENT', 'Count must be a positive number');
+  }
+  return count;
+}
+
+// Configuration problems are part of each config command's output, so don't also warn about them
+async function loadConfig() {
+  const { Config } = await import('./Config.js');
+  return new Config(process.cwd(), { quiet: true, overrides: configOverrides() });
+}
+
+async function askQuestion(question: string): Promise<string> {
+  // Simple prompt using built-in readline
+  const readline = await import('readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  const answer = await new Promise<string>((resolve) => {
+    rl.question(question, resolve);
+  });
+  rl.close();
+  return answer.trim().toLowerCase();
+}
+
+async function askConfirmation(question: string): Promise<boolean> {
+  const answer = await askQuestion(`${question} (y/N): `);
+  return answer === 'y' || answer === 'yes';
+}
+
+async function askConflictResolution(): Promise<ConflictResolution> {
+  const choice = await askQuestion('(a)bort, keep (o)urs = later changes, keep (t)heirs = reverted version [a]: ');
+  if (choice === 'o' || choice === 'ours') return 'ours';
+  if (choice === 't' || choice === 'theirs') return 'theirs';
+  return 'abort';
+}
+
 program
   .name('ai-rewind')
   .description('AI change tracking and rollback system using shadow git repository')
   .version(version, '-v, --version', 'Display version number')
+  .option('--json', 'Output a machine-readable JSON document instead of text')
+  .option('--set <key=value>', 'Override a setting for this command (repeatable)', collectRepeated)
   .helpOption('-h, --help', 'Display help for command')
   .addHelpText('after', `
 Examples:
@@ -51,7 +227,12 @@ Examples:
   $ ai-rewind commit "Fixed bug"      Commit changes with message
   $ ai-rewind rollback                Rollback last change
   $ ai-rewind rollback 3 --dry-run    Preview rollback of 3 commits
+  $ ai-rewind rollback --to-message SAFETY   Roll back to the latest SAFETY: checkpoint
+  $ ai-rewind rollback --ago 30m      Roll back to how things were 30 minutes ago
+  $ ai-rewind rollback --merge        Undo the last checkpoint but keep your own uncommitted edits
   $ ai-rewind status                  Show current status
+  $ ai-rewind log --json              Print history as JSON
+  $ ai-rewind watch                   Checkpoint automatically while files change
   $ ai-rewind config --create          Create configuration file
 
 For more information, visit: https://github.com/hex4def6/ai-rewind`);
@@ -60,174 +241,658 @@ program
   .command('init')
   .description('Initialize AI tracking repository in current directory')
   .action(async () => {
-    try {
-      await tracker.initialize();
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand(
+      'init',
+      () => withSpinner('Initializing AI tracking repository...', () => tracker.initialize()),
+      renderInit
+    );
   });
 
 program
   .command('commit [message]')
   .description('Save current changes with optional message')
-  .action(async (message?: string) => {
-    try {
-      await tracker.commit(message);
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+  .option('--agent <name>', 'Agent or model that made the change (default: $AI_REWIND_AGENT)')
+  .option('--session <id>', 'Conversation or session id (default: $AI_REWIND_SESSION)')
+  .option('--prompt-ref <ref>', 'Prompt id, transcript path or URL (default: $AI_REWIND_PROMPT_REF)')
+  .action(async (message?: string, options?: { agent?: string; session?: string; promptRef?: string }) => {
+    const metadata = { agent: options?.agent, session: options?.session, promptRef: options?.promptRef };
+    await runCommand(
+      'commit',
+      () => withSpinner('Committing changes...', () => tracker.commit(message, metadata)),
+      renderCommit
+    );
   });
 
+interface RollbackCliOptions {
+  force?: boolean;
+  merge?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+  to?: string;
+  toMessage?: string;
+  at?: string;
+  ago?: string;
+}
+
 program
   .command('rollback [count]')
   .description('Revert last N commits (default: 1)')
   .option('-f, --force', 'Force rollback even with uncommitted changes')
+  .option('-m, --merge', 'Keep uncommitted edits by merging them onto the rolled-back state')
   .option('-d, --dry-run', 'Show what would be rolled back without making changes')
   .option('-y, --yes', 'Skip confirmation prompt')
-  .action(async (count?: string, options?: { force?: boolean; dryRun?: boolean; yes?: boolean }) => {
-    try {
-      const rollbackCount = count ? parseInt(count) : 1;
-      if (isNaN(rollbackCount) || rollbackCount < 1) {
-        console.error(chalk.red('Error: Count must be a positive number'));
-        process.exit(1);
-      }
-      await tracker.rollback(rollbackCount, { 
+  .option('--to <commit>', 'Roll back to a specific checkpoint hash or tag')
+  .option('--to-message <text>', 'Roll back to the latest checkpoint whose message contains text')
+  .option('--at <time>', 'Roll back to the latest checkpoint at or before a time, e.g. "2026-10-19 14:00"')
+  .option('--ago <duration>', 'Roll back to the latest checkpoint older than a duration, e.g. 30m, 2h, 1d')
+  .action(async (count?: string, options?: RollbackCliOptions) => {
+    await runCommand('rollback', async () => {
+      const target: RollbackTarget = {
+        count: count !== undefined ? parseCount(count, 1) : undefined,
+        to: options?.to,
+        toMessage: options?.toMessage,
+        at: options?.at,
+        ago: options?.ago
+      };
+      const skipConfirmation = options?.yes || options?.force || options?.dryRun;
+      // A prompt would corrupt the JSON document, so scripts have to opt in explicitly
+      if (jsonMode && !skipConfirmation) {
+        throw new AIRewindError('CONFIRMATION_REQUIRED', 'Rollback with --json requires --yes, --force or --dry-run');
+      }
+      return tracker.rollback(target, {
         force: options?.force,
+        merge: options?.merge,
         dryRun: options?.dryRun,
-        noConfirm: options?.yes
+        // Confirmation prompt (unless --yes or --force)
+        confirm: skipConfirmation
+          ? undefined
+          : async (plan) => {
+              console.log(renderRollbackPlan(plan, { merge: options?.merge }));
+              console.log(chalk.yellow(`\n⚠️  This will rollback ${plan.count} commit(s) and cannot be undone easily.`));
+              console.log(chalk.gray('(A backup tag will be created first)'));
+              return askConfirmation('Are you sure you want to continue?');
+            }
       });
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
+    }, renderRollback);
+  });
+
+program
+  .command('revert <commit>')
+  .description('Undo one checkpoint as a new checkpoint, keeping everything done after it')
+  .option('--on-conflict <mode>', 'When later changes touched the same lines: abort, ours (keep later changes) or theirs (force the revert)')
+  .option('-d, --dry-run', 'Show the files the revert would change and any conflicts without making changes')
+  .action(async (commit: string, options?: { onConflict?: string; dryRun?: boolean }) => {
+    await runCommand('revert', async () => {
+      const onConflict = options?.onConflict;
+      if (onConflict !== undefined && !['abort', 'ours', 'theirs'].includes(onConflict)) {
+        throw new AIRewindError('INVALID_ARGUMENT', '--on-conflict must be abort, ours or theirs');
+      }
+      // No spinner: it would draw over the conflict prompt
+      return tracker.revert(commit, {
+        dryRun: options?.dryRun,
+        onConflict: onConflict as ConflictResolution | undefined,
+        // Ask only when someone is there to answer
+        resolveConflict: jsonMode || !process.stdin.isTTY
+          ? undefined
+          : async (conflicts) => {
+              console.log(chalk.yellow('\nLater checkpoints changed the same lines in:'));
+              console.log(formatConflicts(conflicts));
+              return askConflictResolution();
+            }
+      });
+    }, renderRevert);
+  });
+
+program
+  .command('promote <range>')
+  .description('Replay checkpoints (e.g. HEAD~3.. or one hash) as commits on the main repository\'s current branch')
+  .option('-s, --squash', 'Combine them into a single commit')
+  .option('-m, --message <message>', 'Message for a squashed or single commit (default: the checkpoint messages)')
+  .option('--co-author <identity>', 'Add a "Co-authored-by: Name <email>" trailer (repeatable)', collectRepeated)
+  .option('--patches <dir>', 'Write format-patch style files to this directory instead of committing')
+  .action(async (range: string, options: { squash?: boolean; message?: string; coAuthor?: string[]; patches?: string }) => {
+    await runCommand(
+      'promote',
+      () => withSpinner('Promoting checkpoints...', () => tracker.promote(range, {
+        squash: options.squash,
+        message: options.message,
+        coAuthors: options.coAuthor,
+        patchDir: options.patches
+      })),
+      renderPromote
+    );
+  });
+
+// Walks through hunks like `git add -p`; returns the ids to revert, or null when quit
+async function chooseHunks(hunks: DiffHunk[]): Promise<number[] | null> {
+  const chosen: number[] = [];
+  for (let i = 0; i < hunks.length; i++) {
+    console.log(`\n${formatHunk(hunks[i])}`);
+    const answer = await askQuestion(
+      chalk.yellow(`Revert this hunk (${i + 1}/${hunks.length})? [y]es, [n]o, [a]ll in file, [d]one with file, [q]uit: `)
+    );
+    const path = hunks[i].path;
+    if (answer === 'q') {
+      return null;
+    }
+    if (answer === 'y' || answer === 'a') {
+      chosen.push(hunks[i].id);
+    }
+    if (answer === 'a' || answer === 'd') {
+      // Apply the same decision to the rest of this file
+      while (i + 1 < hunks.length && hunks[i + 1].path === path) {
+        i++;
+        if (answer === 'a') chosen.push(hunks[i].id);
+      }
     }
+  }
+  return chosen;
+}
+
+program
+  .command('rollback-hunks [paths...]')
+  .description('Choose individual hunks to revert to a checkpoint and record the result as a new checkpoint')
+  .option('-c, --commit <hash>', 'Checkpoint to compare with (default: HEAD~1)')
+  .option('-l, --list', 'List hunks with their ids instead of prompting')
+  .option('--hunk <ids...>', 'Revert these hunk ids without prompting (see --list)')
+  .action(async (paths: string[], options?: { commit?: string; list?: boolean; hunk?: string[] }) => {
+    const hunkOptions = { commit: options?.commit, paths };
+    if (options?.list) {
+      await runCommand('rollback-hunks', () => tracker.listHunks(hunkOptions), renderHunkList);
+      return;
+    }
+
+    await runCommand('rollback-hunks', async () => {
+      if (options?.hunk) {
+        const ids = options.hunk.flatMap((value) => value.split(',')).map((value) => parseCount(value, 1));
+        return tracker.rollbackHunks(ids, hunkOptions);
+      }
+      if (jsonMode || !process.stdin.isTTY) {
+        throw new AIRewindError('CONFIRMATION_REQUIRED', 'rollback-hunks needs a terminal; use --list and --hunk <ids> instead');
+      }
+
+      const list = await tracker.listHunks(hunkOptions);
+      const hunks = list.files.flatMap((file) => file.hunks);
+      if (hunks.length === 0) {
+        return tracker.rollbackHunks([], hunkOptions);
+      }
+      console.log(chalk.cyan(`Comparing the working tree with ${list.target.shortHash} - ${list.target.subject}`));
+      const chosen = await chooseHunks(hunks);
+      return tracker.rollbackHunks(chosen ?? [], hunkOptions);
+    }, renderHunkRollback);
+  });
+
+program
+  .command('pick')
+  .description('Choose a checkpoint or backup to roll back or restore to, with a live preview')
+  .option('-f, --force', 'Force rollback even with uncommitted changes')
+  .option('-m, --merge', 'Keep uncommitted edits by merging them onto the rolled-back state')
+  .option('-n, --limit <count>', 'Number of checkpoints to list', '50')
+  .action(async (options?: { force?: boolean; merge?: boolean; limit?: string }) => {
+    await runCommand('pick', async () => {
+      if (jsonMode) {
+        throw new AIRewindError('INVALID_ARGUMENT', 'pick is interactive; use rollback or forward with --json');
+      }
+      const { Picker } = await import('./Picker.js');
+      const points = await tracker.listRestorePoints(parseCount(options?.limit, 50));
+      const point = await new Picker(points, {
+        loadPreview: (selected) => tracker.previewRestore(selected.kind === 'backup' ? selected.tag : selected.commit.hash)
+      }).run();
+
+      if (!point) {
+        return chalk.gray('Nothing selected');
+      }
+      if (point.kind === 'backup') {
+        console.log(renderForwardPreview(await tracker.previewRestore(point.tag)));
+        console.log(chalk.gray('(A backup tag will be created first)'));
+        if (!(await askConfirmation(`Restore the working tree to ${point.tag}?`))) {
+          return chalk.yellow('Restore cancelled');
+        }
+        return renderForward(await tracker.forward(point.tag, { force: options?.force }));
+      }
+      if (point.count === 0) {
+        return chalk.gray('Already at this checkpoint');
+      }
+      return renderRollback(await tracker.rollback(point.count, {
+        force: options?.force,
+        merge: options?.merge,
+        confirm: async (plan) => {
+          console.log(renderRollbackPlan(plan, { merge: options?.merge }));
+          console.log(chalk.gray('(A backup tag will be created first)'));
+          return askConfirmation('Are you sure you want to continue?');
+        }
+      }));
+    }, (text) => text);
   });
 
 program
   .command('forward <tag>')
-  .description('Restore from a backup tag or commit')
-  .action(async (tag: string) => {
-    try {
-      await tracker.forward(tag);
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+  .description('Restore from a backup tag or commit (a backup tag of the current state is created first)')
+  .option('-f, --force', 'Restore even with uncommitted changes')
+  .action(async (tag: string, options?: { force?: boolean }) => {
+    await runCommand('forward', () => withSpinner('Restoring from backup...', () => tracker.forward(tag, { force: options?.force })), renderForward);
   });
 
 program
-  .command('rollback-file <file>')
-  .description('Rollback specific file(s) to previous state')
-  .option('-c, --commit <hash>', 'Restore file from specific commit')
-  .action(async (file: string, options?: { commit?: string }) => {
-    try {
-      await tracker.rollbackFile(file, options?.commit);
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
+  .command('checkpoint <name>')
+  .description('Create a named checkpoint that is never pruned automatically')
+  .option('-m, --message <text>', 'Describe what the checkpoint marks')
+  .option('--delete', 'Delete the named checkpoint instead')
+  .action(async (name: string, options?: { message?: string; delete?: boolean }) => {
+    if (options?.delete) {
+      await runCommand('checkpoint', () => tracker.deleteCheckpoint(name), (checkpoint) =>
+        chalk.green(`✓ Deleted checkpoint ${checkpoint.name} (was ${checkpoint.commit.shortHash})`)
+      );
+      return;
     }
+    await runCommand('checkpoint', () => tracker.createCheckpoint(name, { message: options?.message }), renderCheckpoint);
+  });
+
+program
+  .command('checkpoints')
+  .description('List named checkpoints and how they differ from the current state')
+  .action(async () => {
+    await runCommand('checkpoints', () => tracker.listCheckpoints(), renderCheckpoints);
+  });
+
+program
+  .command('restore <name>')
+  .description('Return to a named checkpoint (a backup tag is created first)')
+  .option('-f, --force', 'Restore even with uncommitted changes')
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .action(async (name: string, options?: { force?: boolean; yes?: boolean }) => {
+    await runCommand('restore', async () => {
+      const skipConfirmation = options?.yes || options?.force;
+      if (jsonMode && !skipConfirmation) {
+        throw new AIRewindError('CONFIRMATION_REQUIRED', 'restore with --json requires --yes or --force');
+      }
+      if (!skipConfirmation) {
+        const [checkpoint] = (await tracker.listCheckpoints()).filter(entry => entry.name === name);
+        if (checkpoint) {
+          console.log(renderForwardPreview(await tracker.previewRestore(checkpoint.tag)));
+          if (!(await askConfirmation(`Restore the working tree to checkpoint ${name}?`))) {
+            return null;
+          }
+        }
+      }
+      return tracker.restoreCheckpoint(name, { force: options?.force });
+    }, (result) => (result ? renderCheckpointRestore(result) : chalk.yellow('Restore cancelled')));
+  });
+
+const experiment = program
+  .command('experiment')
+  .description('Keep competing AI attempts as parallel branches of the shadow repository');
+
+experiment
+  .command('list', { isDefault: true })
+  .description('List experiments and how far each has diverged from the main line')
+  .action(async () => {
+    await runCommand('experiment list', () => tracker.listExperiments(), renderExperiments);
+  });
+
+experiment
+  .command('start <name>')
+  .description('Start an experiment from the current state and switch to it')
+  .option('--from <commit>', 'Start from this checkpoint instead of the current state')
+  .action(async (name: string, options?: { from?: string }) => {
+    await runCommand('experiment start', () => tracker.startExperiment(name, { from: options?.from }), renderExperimentSwitch);
+  });
+
+experiment
+  .command('switch <name>')
+  .description('Swap the working tree to an experiment, or to the main branch by its name')
+  .action(async (name: string) => {
+    await runCommand('experiment switch', () => tracker.switchExperiment(name), renderExperimentSwitch);
+  });
+
+experiment
+  .command('compare <a> <b>')
+  .description('Diff two experiments (or an experiment and the main branch)')
+  .action(async (a: string, b: string) => {
+    await runCommand('experiment compare', () => tracker.compareExperiments(a, b), renderExperimentComparison);
+  });
+
+experiment
+  .command('adopt <name>')
+  .description('Make an experiment the main line (the old main line is kept as a backup tag)')
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .action(async (name: string, options?: { yes?: boolean }) => {
+    await runCommand('experiment adopt', async () => {
+      if (!options?.yes) {
+        if (jsonMode) {
+          throw new AIRewindError('CONFIRMATION_REQUIRED', 'experiment adopt with --json requires --yes');
+        }
+        const { mainBranch } = await tracker.listExperiments();
+        if (!(await askConfirmation(`Replace ${mainBranch} with experiment ${name}?`))) {
+          return null;
+        }
+      }
+      return tracker.adoptExperiment(name);
+    }, (result) => (result ? renderExperimentAdopt(result) : chalk.yellow('Adopt cancelled')));
+  });
+
+experiment
+  .command('delete <name>')
+  .description('Delete an experiment branch')
+  .action(async (name: string) => {
+    await runCommand('experiment delete', () => tracker.deleteExperiment(name), (entry) =>
+      chalk.gray(`Deleted experiment ${entry.name} (was ${entry.head.shortHash})`)
+    );
   });
 
 program
+  .command('rollback-file <paths...>')
+  .description('Rollback files, directories or globs (e.g. "src/**/*.ts") to a previous state')
+  .option('-c, --commit <hash>', 'Restore from specific commit (default: HEAD~1)')
+  .option('-d, --dry-run', 'Show what would be restored, recreated or deleted without making changes')
+  .action(async (paths: string[], options?: { commit?: string; dryRun?: boolean }) => {
+    await runCommand(
+      'rollback-file',
+      () => withSpinner('Checking file history...', () => tracker.rollbackFiles(paths, {
+        commit: options?.commit,
+        dryRun: options?.dryRun
+      })),
+      renderFileRollback
+    );
+  });
+
+const backups = program
   .command('backups')
+  .description('List and manage backup points');
+
+backups
+  .command('list', { isDefault: true })
   .description('List available backup points')
   .action(async () => {
-    try {
-      await tracker.listBackups();
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand('backups', () => tracker.listBackups(), renderBackups);
+  });
+
+backups
+  .command('prune')
+  .description('Remove backups beyond backupRetentionCount or older than backupMaxAgeDays (pinned ones are kept)')
+  .option('-d, --dry-run', 'Show what would be removed without deleting anything')
+  .action(async (options?: { dryRun?: boolean }) => {
+    await runCommand('backups prune', () => tracker.pruneBackups({ dryRun: options?.dryRun }), renderBackupPrune);
+  });
+
+backups
+  .command('show <tag>')
+  .description('Show how a backup differs from the current state')
+  .action(async (tag: string) => {
+    await runCommand('backups show', () => tracker.showBackup(tag), renderBackupDetails);
+  });
+
+backups
+  .command('delete <tag>')
+  .description('Delete a backup tag')
+  .action(async (tag: string) => {
+    await runCommand('backups delete', () => tracker.deleteBackup(tag), (backup) => chalk.gray(`Removed backup: ${backup.tag}`));
+  });
+
+backups
+  .command('pin <tag>')
+  .description('Keep a backup regardless of the retention settings')
+  .action(async (tag: string) => {
+    await runCommand('backups pin', () => tracker.pinBackup(tag), (backup) => chalk.green(`✓ Pinned ${backup.tag}`));
+  });
+
+backups
+  .command('unpin <tag>')
+  .description('Let retention remove a pinned backup again')
+  .action(async (tag: string) => {
+    await runCommand('backups unpin', () => tracker.pinBackup(tag, false), (backup) => chalk.green(`✓ Unpinned ${backup.tag}`));
+  });
+
+const ignore = program
+  .command('ignore')
+  .description('Manage .ai-rewindignore and see why a path is or isn\'t checkpointed');
+
+ignore
+  .command('list', { isDefault: true })
+  .description('List excludePatterns and .ai-rewindignore rules in the order they apply')
+  .action(async () => {
+    await runCommand('ignore list', () => tracker.listIgnoreRules(), renderIgnoreList);
+  });
+
+ignore
+  .command('add <patterns...>')
+  .description('Append gitignore-style patterns to .ai-rewindignore')
+  .option('-u, --untrack', 'Also stop tracking files that are already checkpointed and now ignored')
+  .action(async (patterns: string[], options?: { untrack?: boolean }) => {
+    await runCommand('ignore add', () => tracker.addIgnorePatterns(patterns, { untrack: options?.untrack }), renderIgnoreAdd);
+  });
+
+ignore
+  .command('check <paths...>')
+  .description('Explain which rule, if any, keeps each path out of checkpoints')
+  .action(async (paths: string[]) => {
+    await runCommand('ignore check', () => tracker.checkIgnore(paths), renderIgnoreChecks);
+  });
+
+ignore
+  .command('untrack')
+  .description('Stop tracking files that were checkpointed before they became ignored (they stay on disk)')
+  .option('-d, --dry-run', 'List the files without changing anything')
+  .action(async (options?: { dryRun?: boolean }) => {
+    await runCommand('ignore untrack', () => tracker.untrackIgnored({ dryRun: options?.dryRun }), renderIgnoreUntrack);
   });
 
 program
   .command('status')
   .description('Show current tracking status')
   .action(async () => {
-    try {
-      await tracker.status();
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand('status', () => tracker.status(), renderStatus);
   });
 
 program
   .command('log [count]')
   .description('View change history (default: 20 commits)')
-  .action(async (count?: string) => {
-    try {
-      const logCount = count ? parseInt(count) : 20;
-      if (isNaN(logCount) || logCount < 1) {
-        console.error(chalk.red('Error: Count must be a positive number'));
-        process.exit(1);
-      }
-      await tracker.log(logCount);
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+  .option('--agent <name>', 'Only show checkpoints made by this agent')
+  .option('--session <id>', 'Only show checkpoints from this session')
+  .option('--main-branch <name>', 'Only show checkpoints taken while the main repository was on this branch')
+  .action(async (count?: string, options?: { agent?: string; session?: string; mainBranch?: string }) => {
+    const filter = { agent: options?.agent, session: options?.session, mainBranch: options?.mainBranch };
+    await runCommand(
+      'log',
+      () => tracker.log(parseCount(count, 20), filter),
+      (commits) => renderLog(commits, tracker.getTrackerConfig(), filter)
+    );
+  });
+
+program
+  .command('diff')
+  .argument('[from]', 'Checkpoint, backup tag, named checkpoint or experiment (default: uncommitted changes)')
+  .argument('[to]', 'Point to compare <from> with (default: <from>\'s own changes)')
+  .argument('[paths...]', 'Only show these paths; put them after "--" when giving fewer than two points')
+  .description('Show uncommitted changes, one checkpoint\'s changes, or everything between two points')
+  .option('--stat', 'Show a per-file summary of changed lines')
+  .option('--name-only', 'Show only the names of changed files')
+  .option('--word-diff', 'Mark changes word by word instead of line by line')
+  .option('-y, --side-by-side', 'Show old and new versions in two columns on wide terminals')
+  .option('--since-main-commit', 'Show only the AI changes checkpointed since the main repository\'s latest commit')
+  .action(async (_from, _to, _paths, options: { stat?: boolean; nameOnly?: boolean; wordDiff?: boolean; sideBySide?: boolean; sinceMainCommit?: boolean }, command: Command) => {
+    // Commander fills <from> and <to> first even from operands after "--", which are always
+    // paths, so the operands are split again by how many followed it
+    const pathCount = separatedOperands(command) ?? Math.max(command.args.length - 2, 0);
+    const revisions = command.args.slice(0, command.args.length - pathCount);
+    const paths = command.args.slice(command.args.length - pathCount);
+    const formats: DiffFormat[] = [];
+    if (options.stat) formats.push('stat');
+    if (options.nameOnly) formats.push('name-only');
+    if (options.wordDiff) formats.push('word-diff');
+    await runCommand(
+      'diff',
+      async () => {
+        if (revisions.length > 2) {
+          throw new AIRewindError('INVALID_ARGUMENT', 'Give at most two points to compare; separate paths with "--"');
+        }
+        if (formats.length > 1) {
+          throw new AIRewindError('INVALID_ARGUMENT', 'Choose one of --stat, --name-only and --word-diff');
+        }
+        if (options.sideBySide && formats.length > 0) {
+          throw new AIRewindError('INVALID_ARGUMENT', '--side-by-side only applies to full patches');
+        }
+        return tracker.diff(revisions[0], { to: revisions[1], paths, format: formats[0], sinceMainCommit: options.sinceMainCommit });
+      },
+      (result) => renderDiff(result, { sideBySide: options.sideBySide, width: process.stdout.columns || 80 })
+    );
   });
 
 program
-  .command('diff [commit]')
-  .description('Show changes in working directory or specific commit')
+  .command('scan [commit]')
+  .description('Check checkpoint history (or one checkpoint) for secrets')
   .action(async (commit?: string) => {
-    try {
-      await tracker.diff(commit);
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand('scan', () => withSpinner('Scanning checkpoints...', () => tracker.scanHistory(commit)), renderSecretScan);
   });
 
 program
   .command('stats')
   .description('Show repository statistics and metrics')
+  .option('--agent <name>', 'Only count checkpoints made by this agent')
+  .option('--session <id>', 'Only count checkpoints from this session')
+  .option('--main-branch <name>', 'Only count checkpoints taken while the main repository was on this branch')
+  .action(async (options?: { agent?: string; session?: string; mainBranch?: string }) => {
+    const filter = { agent: options?.agent, session: options?.session, mainBranch: options?.mainBranch };
+    await runCommand('stats', () => withSpinner('Calculating statistics...', () => tracker.stats(filter)), renderStats);
+  });
+
+program
+  .command('compact')
+  .description('Fold history older than maxCommits into a base snapshot')
   .action(async () => {
-    try {
-      await tracker.stats();
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand(
+      'compact',
+      () => withSpinner('Compacting history...', () => tracker.compact({ force: true })),
+      (result) => (result ? renderCompaction(result) : chalk.gray('History is within maxCommits, nothing to compact'))
+    );
   });
 
 program
+  .command('export [range]')
+  .description('Write checkpoints to a git bundle: all history, or a range like HEAD~5.. or <hash>..<experiment>')
+  .requiredOption('-o, --output <file>', 'Bundle file to write')
+  .action(async (range: string | undefined, options: { output: string }) => {
+    await runCommand('export', () => withSpinner('Exporting checkpoints...', () => tracker.exportBundle(options.output, range)), renderBundleExport);
+  });
+
+program
+  .command('import <file>')
+  .description('Import checkpoints from a bundle written by export')
+  .option('--as <name>', 'Experiment name for the imported history (default: the file name)')
+  .action(async (file: string, options: { as?: string }) => {
+    await runCommand('import', () => withSpinner('Importing checkpoints...', () => tracker.importBundle(file, options)), renderBundleImport);
+  });
+
+program
+  .command('watch')
+  .description('Watch the working tree and create checkpoints automatically')
+  .option('-t, --threshold <count>', 'Number of changed files that triggers a checkpoint')
+  .option('-i, --idle <seconds>', 'Checkpoint pending changes after this many idle seconds', '60')
+  .option('--debounce <ms>', 'Time to wait for a burst of writes to settle', '500')
+  .option('--agent <name>', 'Agent recorded on auto-checkpoints (default: $AI_REWIND_AGENT)')
+  .option('--session <id>', 'Session recorded on auto-checkpoints (default: $AI_REWIND_SESSION)')
+  .action(async (options?: { threshold?: string; idle?: string; debounce?: string; agent?: string; session?: string }) => {
+    // Watch streams one JSON document per line (NDJSON) since it never finishes
+    await runCommand('watch', async () => {
+      const threshold = options?.threshold ? parseCount(options.threshold, 1) : undefined;
+      const idleSeconds = parseFloat(options?.idle ?? '60');
+      const debounceMs = parseInt(options?.debounce ?? '500');
+      if (isNaN(idleSeconds) || idleSeconds <= 0 || isNaN(debounceMs) || debounceMs < 0) {
+        throw new AIRewindError('INVALID_ARGUMENT', 'Idle and debounce times must be positive numbers');
+      }
+
+      const watcher = await tracker.watch({
+        threshold,
+        idleMs: idleSeconds * 1000,
+        debounceMs,
+        metadata: { agent: options?.agent, session: options?.session },
+        onCheckpoint: (event) => {
+          if (jsonMode) {
+            console.log(renderJson('watch', { event: 'checkpoint', ...event }));
+            return;
+          }
+          const reason = event.reason === 'idle' ? 'idle timeout' : 'threshold reached';
+          const hash = event.commit ? `${event.commit.shortHash} ` : '';
+          console.log(chalk.gray(`Auto-checkpoint ${hash}(${reason}): ${event.files.length} file(s)`));
+        },
+        onError: (error) => {
+          if (jsonMode) {
+            console.log(renderJsonError('watch', error));
+            return;
+          }
+          console.error(chalk.red(`Error: ${error.message}`));
+        }
+      });
+
+      process.on('SIGINT', () => {
+        watcher.stop();
+        if (!jsonMode) {
+          console.log(chalk.yellow('\nStopped watching.'));
+        }
+        process.exit(0);
+      });
+
+      return { event: 'started', workTree: process.cwd(), threshold: threshold ?? null, idleSeconds, debounceMs };
+    }, (started) => [
+      chalk.cyan(`Watching ${started.workTree} for changes...`),
+      chalk.gray(`Checkpoint after ${started.threshold ?? 'autoCommitThreshold'} changed file(s) or ${started.idleSeconds}s idle. Press Ctrl+C to stop.`)
+    ].join('\n'));
+  });
+
+const configCommand = program
   .command('config')
-  .description('Show or create configuration file (.ai-rewind.json)')
+  .description('Show, create or edit the configuration (.ai-rewind.json and ~/.config/ai-rewind/config.json)')
   .option('-c, --create', 'Create default configuration file')
-  .option('-s, --show', 'Show current configuration')
+  .option('-s, --show', 'Show the effective configuration and where each value comes from')
   .action(async (options?: { create?: boolean; show?: boolean }) => {
-    try {
-      const { Config } = await import('./Config.js');
-      const config = new Config(process.cwd());
-      
-      if (options?.create) {
-        config.createDefault();
-        console.log(chalk.green('✓ Configuration file created: .ai-rewind.json'));
-        return;
-      }
-      
-      // Show current config (default behavior)
-      console.log(chalk.cyan.bold('AI Rewind Configuration'));
-      console.log('=' .repeat(40));
-      
-      const configPath = join(process.cwd(), '.ai-rewind.json');
-      if (existsSync(configPath)) {
-        console.log(chalk.yellow('Config file:'), configPath);
-        console.log('\n' + chalk.cyan('Current settings:'));
-        console.log(JSON.stringify(config.getAll(), null, 2));
-      } else {
-        console.log(chalk.yellow('No config file found. Using defaults:'));
-        console.log(JSON.stringify(config.getAll(), null, 2));
-        console.log('\n' + chalk.gray('Run "ai-rewind config --create" to create config file'));
-      }
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand('config', async () => {
+      const config = await loadConfig();
+      const created = options?.create ? config.createDefault() : false;
+      const userConfigPath = config.userConfigPath;
+
+      return {
+        configPath: config.path,
+        exists: existsSync(config.path),
+        userConfigPath,
+        userExists: userConfigPath !== null && existsSync(userConfigPath),
+        created,
+        settings: config.getAll(),
+        values: config.list(),
+        issues: config.issues
+      };
+    }, renderConfig);
+  });
+
+configCommand
+  .command('get <key>')
+  .description('Print the effective value of a setting')
+  .action(async (key: string) => {
+    await runCommand('config get', async () => (await loadConfig()).get(key), renderConfigValue);
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('Validate and save a setting (lists: JSON array or comma-separated; "..." keeps inherited entries)')
+  .option('-g, --global', 'Save to the user config shared by all projects')
+  .action(async (key: string, value: string, options: { global?: boolean }) => {
+    await runCommand('config set', async () => (await loadConfig()).set(key, value, options), renderConfigChange);
+  });
+
+configCommand
+  .command('unset <key>')
+  .description('Remove a setting from the file so the layers below apply')
+  .option('-g, --global', 'Remove it from the user config instead of the project')
+  .action(async (key: string, options: { global?: boolean }) => {
+    await runCommand('config unset', async () => (await loadConfig()).unset(key, options), renderConfigChange);
+  });
+
+configCommand
+  .command('schema')
+  .description('Print the JSON Schema for .ai-rewind.json')
+  .action(async () => {
+    const { configSchema } = await import('./Config.js');
+    // Printed as-is (even with --json) so it can be redirected into a schema file
+    console.log(JSON.stringify(configSchema(), null, 2));
   });
 
 program
@@ -235,12 +900,58 @@ program
   .description('Install AI Rewind globally and update CLAUDE.md')
   .option('--path <path>', 'Custom path to ai-rewind installation')
   .action(async (options?: { path?: string }) => {
-    try {
-      await tracker.installGlobally(options?.path);
-    } catch (error) {
-      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
-      process.exit(1);
-    }
+    await runCommand(
+      'install',
+      () => withSpinner('Setting up AI Rewind globally...', () => tracker.installGlobally(options?.path)),
+      renderInstall
+    );
+  });
+
+program
+  .command('mcp')
+  .description('Run a Model Context Protocol server on stdio exposing rewind operations as tools')
+  .action(async () => {
+    // stdout carries the protocol, so nothing else may be printed there
+    const { McpServer } = await import('./McpServer.js');
+    await new McpServer(tracker, version).start();
+  });
+
+program
+  .command('install-hooks')
+  .description('Register PreToolUse/PostToolUse hooks so Claude Code checkpoints automatically')
+  .option('--settings <path>', 'Settings file to update (default: ~/.claude/settings.json)')
+  .option('--project', 'Update .claude/settings.json in the current project instead')
+  .option('--path <path>', 'Custom path to ai-rewind installation')
+  .action(async (options?: { settings?: string; project?: boolean; path?: string }) => {
+    const settingsPath = options?.project ? join(process.cwd(), '.claude', 'settings.json') : options?.settings;
+    await runCommand(
+      'install-hooks',
+      () => tracker.installHooks({ settingsPath, installPath: options?.path }),
+      renderHookInstall
+    );
+  });
+
+program
+  .command('hook <event>')
+  .description('Checkpoint from a Claude Code hook payload on stdin (PreToolUse or PostToolUse)')
+  .action(async (event: string) => {
+    await runCommand('hook', async () => {
+      if (!isHookEvent(event)) {
+        throw new AIRewindError('INVALID_ARGUMENT', `Unsupported hook event '${event}' (expected PreToolUse or PostToolUse)`);
+      }
+      let raw = '';
+      for await (const chunk of process.stdin) {
+        raw += chunk;
+      }
+      const payload = parseHookPayload(raw);
+      // Hooks run with the session's directory, which the payload states explicitly
+      const project = findHookProject(payload.cwd ?? process.cwd());
+      if (!project) {
+        const skipped: HookResult = { event, tool: payload.tool_name ?? null, skipped: 'not-initialized', files: [], commit: null };
+        return skipped;
+      }
+      return new AIRewind(project).commitFromHook(event, payload);
+    }, renderHook);
   });
 
 // Show help if no command provided
@@ -248,4 +959,14 @@ if (process.argv.length === 2) {
   program.help();
 }
 
-program.parse(process.argv);
\ No newline at end of file
+program.parseAsync(process.argv).catch((error: unknown) => {
+  if (!(error instanceof CommanderError)) {
+    throw error;
+  }
+  // --help and --version also end through the override
+  if (error.exitCode === 0) {
+    process.exit(0);
+  }
+  console.log(renderJsonError('ai-rewind', new AIRewindError('INVALID_ARGUMENT', error.message.replace(/^error: /, ''))));
+  process.exit(1);
+});
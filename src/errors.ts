@@ -0,0 +1,35 @@
+// Stable error codes for callers that need to branch on failures
+// (the CLI's --json output, tools embedding AIRewind).
+
+export type ErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'INVALID_WORK_TREE'
+  | 'NOT_INITIALIZED'
+  | 'ALREADY_INITIALIZED'
+  | 'ALREADY_EXISTS'
+  | 'NOT_FOUND'
+  | 'NOTHING_TO_ROLLBACK'
+  | 'NOTHING_TO_COMMIT'
+  | 'UNCOMMITTED_CHANGES'
+  | 'MAIN_REPO_DIRTY'
+  | 'SECRET_DETECTED'
+  | 'CONFIRMATION_REQUIRED'
+  | 'PERMISSION_DENIED'
+  | 'REPOSITORY_LOCKED'
+  | 'GIT_UNAVAILABLE'
+  | 'GIT_ERROR'
+  | 'UNKNOWN';
+
+export class AIRewindError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'AIRewindError';
+    this.code = code;
+  }
+}
+
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof AIRewindError ? error.code : 'UNKNOWN';
+}
@@ -0,0 +1,58 @@
+// Minimal gitignore-style glob matching used for exclude patterns.
+// Supports `*`, `?`, `**` and patterns without a slash matching at any depth.
+
+const regexCache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regexCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let glob = pattern.replace(/\\/g, '/').trim();
+  // Leading slash anchors the pattern to the root; a pattern without any
+  // slash matches a file or directory name at any depth (like .gitignore)
+  if (glob.startsWith('/')) {
+    glob = glob.slice(1);
+  } else if (!glob.replace(/\/$/, '').includes('/')) {
+    glob = `**/${glob}`;
+  }
+  // `dir/` and `dir/**` both mean "this directory and everything in it",
+  // which the suffix added below already covers
+  glob = glob.replace(/\/(\*\*)?$/, '');
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if ('.+^${}()|[]'.includes(char)) {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+  }
+
+  // Matching a directory also matches everything below it
+  const regex = new RegExp(`^${source}(?:/.*)?$`);
+  regexCache.set(pattern, regex);
+  return regex;
+}
+
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  return globToRegExp(pattern).test(normalized);
+}
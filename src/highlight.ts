@@ -0,0 +1,160 @@
+// Light syntax highlighting for diff output: keywords, strings, comments and numbers, with the
+// language picked from the file extension. Lines are highlighted one at a time, so constructs
+// spanning several lines (block comments, multi-line strings) are coloured only where they start.
+import chalk from 'chalk';
+
+export interface Language {
+  name: string;
+  keywords: Set<string>;
+  // '//', '#' or '/*'
+  comments: string[];
+  quotes: string[];
+}
+
+function language(name: string, keywords: string, comments: string[], quotes: string[]): Language {
+  return { name, keywords: new Set(keywords.split(' ')), comments, quotes };
+}
+
+const C_COMMENTS = ['//', '/*'];
+
+const LANGUAGES: Language[] = [
+  language(
+    'javascript',
+    'abstract as async await break case catch class const continue debugger default delete do else enum export extends false finally for from function get if implements import in instanceof interface keyof let new null of private protected public readonly return satisfies set static super switch this throw true try type typeof undefined var void while yield',
+    C_COMMENTS,
+    ["'", '"', '`']
+  ),
+  language(
+    'python',
+    'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield',
+    ['#'],
+    ["'", '"']
+  ),
+  language(
+    'go',
+    'break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var',
+    C_COMMENTS,
+    ['"', '`', "'"]
+  ),
+  // Single quotes are left out: they mostly mark lifetimes
+  language(
+    'rust',
+    'as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while',
+    C_COMMENTS,
+    ['"']
+  ),
+  language(
+    'java',
+    'abstract break case catch class const continue default do else enum extends false final finally for fun if implements import instanceof interface internal is namespace new null object override package private protected public return static super switch this throw throws true try using val var void when while',
+    C_COMMENTS,
+    ['"', "'"]
+  ),
+  language(
+    'c',
+    'auto break case char class const continue default delete do double else enum extern false float for goto if include inline int long namespace new nullptr private protected public return short signed sizeof static struct switch template this true typedef union unsigned using virtual void volatile while',
+    C_COMMENTS,
+    ['"', "'"]
+  ),
+  language(
+    'ruby',
+    'begin break case class def defined do else elsif end ensure false for if in module next nil not or redo require rescue retry return self super then true undef unless until when while yield',
+    ['#'],
+    ["'", '"']
+  ),
+  language(
+    'shell',
+    'case do done elif else esac export fi for function if in local return then until while',
+    ['#'],
+    ["'", '"']
+  ),
+  language('yaml', 'false no null true yes', ['#'], ["'", '"']),
+  language('json', 'false null true', [], ['"']),
+];
+
+const EXTENSIONS: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  mts: 'javascript',
+  cts: 'javascript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'java',
+  kts: 'java',
+  cs: 'java',
+  scala: 'java',
+  c: 'c',
+  h: 'c',
+  cc: 'c',
+  cpp: 'c',
+  hpp: 'c',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  yml: 'yaml',
+  yaml: 'yaml',
+  json: 'json',
+};
+
+const tokenPatterns = new Map<string, RegExp>();
+
+export function languageFor(path: string): Language | null {
+  const extension = path.match(/\.([A-Za-z0-9]+)$/)?.[1]?.toLowerCase();
+  const name = extension ? EXTENSIONS[extension] : undefined;
+  return LANGUAGES.find((candidate) => candidate.name === name) ?? null;
+}
+
+// One alternation per token kind, in capture groups: comment, string, number, word
+function tokenPattern(language: Language): RegExp {
+  let pattern = tokenPatterns.get(language.name);
+  if (!pattern) {
+    const comments = language.comments.map((start) =>
+      start === '/*' ? '/\\*.*?(?:\\*/|$)' : `${start}.*$`
+    );
+    // An unterminated string runs to the end of the line
+    const strings = language.quotes.map((quote) => `${quote}(?:[^${quote}\\\\]|\\\\.)*${quote}?`);
+    pattern = new RegExp(
+      [
+        `(${comments.join('|') || '(?!)'})`,
+        `(${strings.join('|')})`,
+        '(\\b(?:0x[0-9a-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)',
+        '([A-Za-z_$][\\w$]*)',
+      ].join('|'),
+      'g'
+    );
+    tokenPatterns.set(language.name, pattern);
+  }
+  return pattern;
+}
+
+export function highlightCode(text: string, language: Language | null): string {
+  if (!language) {
+    return text;
+  }
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(tokenPattern(language))) {
+    const [token, comment, string, number, word] = match;
+    const index = match.index ?? 0;
+    result += text.slice(last, index);
+    if (comment) {
+      result += chalk.gray(token);
+    } else if (string) {
+      result += chalk.yellow(token);
+    } else if (number) {
+      result += chalk.cyan(token);
+    } else if (word && language.keywords.has(word)) {
+      result += chalk.magenta(token);
+    } else {
+      result += token;
+    }
+    last = index + token.length;
+  }
+  return result + text.slice(last);
+}
@@ -0,0 +1,152 @@
+// Claude Code hook integration: turns PreToolUse/PostToolUse payloads into
+// checkpoint messages and registers the hook commands in a settings file.
+
+import { existsSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import { AIRewindError } from './errors.js';
+
+export const HOOK_EVENTS = ['PreToolUse', 'PostToolUse'] as const;
+export type HookEvent = (typeof HOOK_EVENTS)[number];
+
+// Tools that can modify the working tree; everything else is ignored
+export const HOOK_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash'];
+
+// Subset of the JSON document Claude Code writes to a hook's stdin
+export interface HookPayload {
+  session_id?: string;
+  transcript_path?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+}
+
+export interface ToolUseDescription {
+  message: string;
+  files: string[];
+}
+
+interface HookCommand {
+  type: string;
+  command: string;
+  timeout?: number;
+}
+
+interface HookMatcher {
+  matcher?: string;
+  hooks?: HookCommand[];
+}
+
+export interface HookSettings {
+  hooks?: Record<string, HookMatcher[]>;
+  [key: string]: unknown;
+}
+
+const MAX_COMMAND_LENGTH = 60;
+
+export function isHookEvent(event: string): event is HookEvent {
+  return (HOOK_EVENTS as readonly string[]).includes(event);
+}
+
+// Hooks fire wherever the session is, often below the project root: the nearest directory
+// at or above it that holds a tracking repository, or null if there is none
+export function findHookProject(cwd: string): string | null {
+  let dir = resolve(cwd);
+  while (!existsSync(join(dir, '.git-ai-tracking'))) {
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+  return dir;
+}
+
+export function parseHookPayload(raw: string): HookPayload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    throw new AIRewindError('INVALID_ARGUMENT', 'Hook payload on stdin is not valid JSON');
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new AIRewindError('INVALID_ARGUMENT', 'Hook payload must be a JSON object');
+  }
+  return payload as HookPayload;
+}
+
+export function describeToolUse(
+  event: HookEvent,
+  payload: HookPayload,
+  workTree: string
+): ToolUseDescription {
+  const tool = payload.tool_name ?? 'tool';
+  const input = payload.tool_input ?? {};
+
+  const files: string[] = [];
+  for (const key of ['file_path', 'notebook_path']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) {
+      files.push(isAbsolute(value) ? relative(workTree, value) || value : value);
+    }
+  }
+
+  let target = files.join(', ');
+  if (!target && typeof input.command === 'string') {
+    const command = input.command.split('\n')[0].trim();
+    target =
+      command.length > MAX_COMMAND_LENGTH
+        ? `${command.slice(0, MAX_COMMAND_LENGTH - 3)}...`
+        : command;
+  }
+
+  const action = target ? `${tool} ${target}` : tool;
+  return {
+    message: event === 'PreToolUse' ? `SAFETY: Before ${action}` : `WIP: ${action}`,
+    files,
+  };
+}
+
+// Adds (or refreshes) one ai-rewind entry per event; returns whether anything changed
+export function mergeHookSettings(
+  settings: HookSettings,
+  commandFor: (event: HookEvent) => string
+): boolean {
+  const hooks = settings.hooks ?? {};
+  let changed = !settings.hooks;
+
+  for (const event of HOOK_EVENTS) {
+    const command = commandFor(event);
+    const matchers = hooks[event] ?? [];
+    const existing = matchers.find((entry) =>
+      entry.hooks?.some((hook) => isAIRewindHook(hook.command, event))
+    );
+
+    if (
+      existing?.hooks?.some((hook) => hook.command === command) &&
+      existing.matcher === HOOK_TOOLS.join('|')
+    ) {
+      continue;
+    }
+
+    // Drop stale entries (e.g. an old install path) before adding the current one
+    const kept = matchers
+      .map((entry) => ({
+        ...entry,
+        hooks: entry.hooks?.filter((hook) => !isAIRewindHook(hook.command, event)),
+      }))
+      .filter((entry) => (entry.hooks?.length ?? 0) > 0);
+    kept.push({ matcher: HOOK_TOOLS.join('|'), hooks: [{ type: 'command', command }] });
+    hooks[event] = kept;
+    changed = true;
+  }
+
+  settings.hooks = hooks;
+  return changed;
+}
+
+function isAIRewindHook(command: string | undefined, event: HookEvent): boolean {
+  return (
+    !!command && /ai-rewind|cli\.js/.test(command) && command.trimEnd().endsWith(`hook ${event}`)
+  );
+}
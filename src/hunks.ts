@@ -0,0 +1,77 @@
+// Splits unified diffs into files and hunks, and rebuilds a patch from a
+// subset of hunks so they can be applied (or reverted) on their own.
+
+export interface DiffHunk {
+  // 1-based position across the whole diff, used to select hunks
+  id: number;
+  path: string;
+  // The "@@ -a,b +c,d @@ context" line
+  header: string;
+  // Body lines including their ' ', '+', '-' or '\' prefix
+  lines: string[];
+  added: number;
+  removed: number;
+}
+
+export interface FileDiff {
+  path: string;
+  // "diff --git", mode/index and ---/+++ lines preceding the first hunk
+  header: string[];
+  hunks: DiffHunk[];
+  // Binary changes have no hunks and can't be split
+  binary: boolean;
+}
+
+export function parseDiff(patch: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  let nextId = 1;
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      file = { path: diffGitPath(line), header: [line], hunks: [], binary: false };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+    if (!file) {
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      hunk = { id: nextId++, path: file.path, header: line, lines: [], added: 0, removed: 0 };
+      file.hunks.push(hunk);
+    } else if (hunk && /^[ +\-\\]/.test(line)) {
+      hunk.lines.push(line);
+      if (line.startsWith('+')) hunk.added++;
+      if (line.startsWith('-')) hunk.removed++;
+    } else if (!hunk && line) {
+      file.header.push(line);
+      if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      }
+    }
+  }
+  return files;
+}
+
+// "diff --git a/path b/path"; renames are disabled, so both sides are equal
+export function diffGitPath(line: string): string {
+  return line.slice('diff --git '.length).replace(/^a\//, '').split(' b/')[0];
+}
+
+// Patch containing only the chosen hunks, with each file's header kept intact
+export function buildPatch(files: FileDiff[], hunkIds: Set<number>): string {
+  const parts: string[] = [];
+  for (const file of files) {
+    const hunks = file.hunks.filter((hunk) => hunkIds.has(hunk.id));
+    if (hunks.length === 0) {
+      continue;
+    }
+    parts.push(...file.header);
+    for (const hunk of hunks) {
+      parts.push(hunk.header, ...hunk.lines);
+    }
+  }
+  return parts.length > 0 ? `${parts.join('\n')}\n` : '';
+}
@@ -0,0 +1,44 @@
+// Reads .ai-rewindignore, a gitignore-syntax list of paths that are never checkpointed.
+// Git applies the file itself (it is copied into the shadow repository's info/exclude);
+// these helpers cover listing its rules and the watcher's quick pre-filter.
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { matchesGlob } from './glob.js';
+
+export const IGNORE_FILE = '.ai-rewindignore';
+
+export interface IgnoreEntry {
+  // 1-based line in the file
+  line: number;
+  // As written, including a leading '!'
+  pattern: string;
+  negated: boolean;
+}
+
+export function parseIgnoreFile(content: string): IgnoreEntry[] {
+  const entries: IgnoreEntry[] = [];
+  content.split('\n').forEach((raw, index) => {
+    const pattern = raw.replace(/\r$/, '').trim();
+    if (pattern && !pattern.startsWith('#')) {
+      entries.push({ line: index + 1, pattern, negated: pattern.startsWith('!') });
+    }
+  });
+  return entries;
+}
+
+export function readIgnoreFile(workTree: string): { path: string; exists: boolean; content: string } {
+  const path = join(workTree, IGNORE_FILE);
+  const exists = existsSync(path);
+  return { path, exists, content: exists ? readFileSync(path, 'utf-8') : '' };
+}
+
+// Like git, the last matching entry wins, so a later '!pattern' re-includes a path
+export function isIgnoredBy(filePath: string, entries: IgnoreEntry[]): boolean {
+  let ignored = false;
+  for (const entry of entries) {
+    if (matchesGlob(filePath, entry.negated ? entry.pattern.slice(1) : entry.pattern)) {
+      ignored = !entry.negated;
+    }
+  }
+  return ignored;
+}
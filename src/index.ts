@@ -1,4 +1,98 @@
 export { AIRewind } from './AIRewind.js';
 export type { TrackerConfig } from './AIRewind.js';
-export { Config } from './Config.js';
-export type { TrackerConfigOptions } from './Config.js';
\ No newline at end of file
+export { AIRewindError, getErrorCode } from './errors.js';
+export type { ErrorCode } from './errors.js';
+export { CONFIG_KEYS, Config, INHERIT_ENTRY, configEnvName, configSchema } from './Config.js';
+export type {
+  ConfigChange,
+  ConfigIssue,
+  ConfigKey,
+  ConfigKeyDescriptor,
+  ConfigLoadOptions,
+  ConfigSource,
+  ConfigValue,
+  TrackerConfigOptions,
+} from './Config.js';
+export { HOOK_EVENTS, HOOK_TOOLS, describeToolUse, parseHookPayload } from './hooks.js';
+export type { HookEvent, HookPayload, ToolUseDescription } from './hooks.js';
+export { highlightCode, languageFor } from './highlight.js';
+export type { Language } from './highlight.js';
+export { buildPatch, diffGitPath, parseDiff } from './hunks.js';
+export type { DiffHunk, FileDiff } from './hunks.js';
+export { IGNORE_FILE, isIgnoredBy, parseIgnoreFile } from './ignore.js';
+export type { IgnoreEntry } from './ignore.js';
+export { LargeFileStore, formatLargeFileTrailer, isBinaryFile, parseLargeFileTrailers } from './LargeFileStore.js';
+export { McpServer } from './McpServer.js';
+export type { JsonRpcResponse } from './McpServer.js';
+export { Picker } from './Picker.js';
+export type { PickerOptions } from './Picker.js';
+export { SECRET_RULES, maskSecret, redactSecrets, scanLine, scanPatch, shannonEntropy } from './secrets.js';
+export type { SecretMatch, SecretRule } from './secrets.js';
+export { Watcher } from './Watcher.js';
+export type { WatchOptions, WatchCheckpointEvent } from './Watcher.js';
+export type {
+  BackupDetails,
+  BackupEntry,
+  BackupPruneResult,
+  BackupRemoval,
+  BinaryPolicy,
+  BundleExportResult,
+  BundleImportResult,
+  ChangeKind,
+  CheckpointMetadata,
+  CheckpointOptions,
+  CheckpointRestoreResult,
+  CheckpointResult,
+  CommitEntry,
+  CommitFilter,
+  CommitResult,
+  CompactionResult,
+  ConflictResolution,
+  DiffFormat,
+  DiffOptions,
+  DiffResult,
+  DiffStat,
+  ExperimentAdoptResult,
+  ExperimentComparison,
+  ExperimentEntry,
+  ExperimentList,
+  ExperimentSwitchResult,
+  FileChange,
+  FileRestoreAction,
+  FileRestoreEntry,
+  FileRollbackOptions,
+  FileRollbackResult,
+  ForwardResult,
+  HookInstallResult,
+  HookResult,
+  HunkList,
+  HunkOptions,
+  HunkRollbackResult,
+  IgnoreAddResult,
+  IgnoreCheck,
+  IgnoreList,
+  IgnoreRule,
+  IgnoreSource,
+  IgnoreUntrackResult,
+  InitResult,
+  InstallResult,
+  LargeFileEntry,
+  MainRepoState,
+  NamedCheckpoint,
+  PromoteOptions,
+  PromoteResult,
+  RestorePoint,
+  RestorePreview,
+  RevertOptions,
+  RevertResult,
+  RollbackOptions,
+  RollbackPlan,
+  RollbackResult,
+  RollbackTarget,
+  SecretFinding,
+  SecretPolicy,
+  SecretScanResult,
+  StatsResult,
+  StatusEntry,
+  StatusResult,
+} from './types.js';
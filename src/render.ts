@@ -0,0 +1,1226 @@
+import chalk from 'chalk';
+import type { TrackerConfig } from './AIRewind.js';
+import type { ConfigChange, ConfigIssue, ConfigSource, ConfigValue, TrackerConfigOptions } from './Config.js';
+import { getErrorCode } from './errors.js';
+import { highlightCode, languageFor } from './highlight.js';
+import type { Language } from './highlight.js';
+import { diffGitPath, parseDiff } from './hunks.js';
+import type { DiffHunk } from './hunks.js';
+import type {
+  BackupDetails,
+  BackupEntry,
+  BackupPruneResult,
+  BinaryPolicy,
+  BundleExportResult,
+  BundleImportResult,
+  CheckpointMetadata,
+  CheckpointRestoreResult,
+  CheckpointResult,
+  CommitEntry,
+  CommitFilter,
+  CommitResult,
+  CompactionResult,
+  DiffResult,
+  DiffStat,
+  ExperimentAdoptResult,
+  ExperimentComparison,
+  ExperimentList,
+  ExperimentSwitchResult,
+  FileChange,
+  FileRollbackResult,
+  ForwardResult,
+  HookInstallResult,
+  HookResult,
+  HunkList,
+  HunkRollbackResult,
+  IgnoreAddResult,
+  IgnoreCheck,
+  IgnoreList,
+  IgnoreRule,
+  IgnoreUntrackResult,
+  InitResult,
+  InstallResult,
+  LargeFileEntry,
+  MainRepoState,
+  NamedCheckpoint,
+  PromoteResult,
+  RestorePreview,
+  RevertResult,
+  RollbackPlan,
+  RollbackResult,
+  SecretFinding,
+  SecretScanResult,
+  StatsResult,
+  StatusEntry,
+  StatusResult,
+} from './types.js';
+
+// Terminal rendering for the results returned by AIRewind.
+// Every function returns the text to print so callers decide where it goes.
+
+const RULE = '='.repeat(40);
+
+// Bump when the shape of a --json document changes incompatibly
+export const JSON_SCHEMA_VERSION = 1;
+
+const KIND_CODES: Record<string, string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  renamed: 'R',
+  copied: 'C',
+  typechange: 'T',
+  untracked: '??',
+  unmerged: 'U',
+};
+
+export function formatCommit(commit: CommitEntry, options: { refs?: boolean } = {}): string {
+  const refs = options.refs && commit.refs.length > 0 ? ` ${chalk.green(`(${commit.refs.join(', ')})`)}` : '';
+  return `${chalk.yellow(commit.shortHash)} - ${chalk.cyan(commit.date.slice(0, 10))} - ${commit.subject}${refs}`;
+}
+
+export function formatMetadata(metadata: CheckpointMetadata): string {
+  const parts: string[] = [];
+  if (metadata.agent) parts.push(`agent: ${metadata.agent}`);
+  if (metadata.session) parts.push(`session: ${metadata.session}`);
+  if (metadata.promptRef) parts.push(`prompt: ${metadata.promptRef}`);
+  return parts.join(', ');
+}
+
+function formatFilter(filter: CommitFilter): string {
+  const metadata = formatMetadata({ agent: filter.agent, session: filter.session });
+  const mainBranch = filter.mainBranch ? `main branch: ${filter.mainBranch}` : '';
+  return [metadata, mainBranch].filter(Boolean).join(', ');
+}
+
+// "main 1a2b3c4 on feature, dirty"
+function formatMainRepo(main: MainRepoState): string {
+  return `main ${main.head.slice(0, 7)}${main.branch ? ` on ${main.branch}` : ' (detached)'}${main.dirty ? ', dirty' : ''}`;
+}
+
+export function formatFileChanges(files: FileChange[]): string {
+  return files
+    .map((file) => {
+      const path = file.originalPath ? `${file.originalPath} -> ${file.path}` : file.path;
+      return `${KIND_CODES[file.kind] ?? 'M'}\t${path}`;
+    })
+    .join('\n');
+}
+
+function formatStatusEntries(entries: StatusEntry[]): string {
+  return entries
+    .map((entry) => `${entry.code} ${entry.originalPath ? `${entry.originalPath} -> ` : ''}${entry.path}`)
+    .join('\n');
+}
+
+function kilobytes(bytes: number): string {
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? kilobytes(bytes) : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const LARGE_FILE_ACTIONS: Record<BinaryPolicy, string> = {
+  skip: 'skipped',
+  store: 'stored outside history',
+  metadata: 'metadata only'
+};
+
+function formatLargeFiles(files: LargeFileEntry[]): string[] {
+  return files.map((file) =>
+    `  ${chalk.blue(file.path)} ${chalk.gray(`(${formatSize(file.size)}${file.binary ? ', binary' : ''})`)} ${chalk.yellow(LARGE_FILE_ACTIONS[file.policy])}`
+  );
+}
+
+function formatSecretFinding(finding: SecretFinding): string {
+  return `  ${chalk.blue(`${finding.path}:${finding.line}`)} ${finding.description} ${chalk.gray(`(${finding.preview})`)}`;
+}
+
+// Findings a checkpoint let through: redacted under secretPolicy 'redact', kept under 'warn'
+// and for guess-based rules
+function formatCheckpointSecrets(findings: SecretFinding[]): string[] {
+  const lines: string[] = [];
+  const redacted = findings.filter((finding) => finding.redacted);
+  const kept = findings.filter((finding) => !finding.redacted);
+  if (redacted.length > 0) {
+    lines.push(chalk.yellow(`⚠ Redacted ${redacted.length} possible secret(s) in the checkpoint (working files unchanged):`));
+    lines.push(...redacted.map(formatSecretFinding));
+  }
+  if (kept.length > 0) {
+    lines.push(chalk.yellow(`⚠ Checkpoint contains ${kept.length} possible secret(s):`));
+    lines.push(...kept.map(formatSecretFinding));
+  }
+  return lines;
+}
+
+export function renderInit(result: InitResult): string {
+  const lines: string[] = [];
+  if (result.mainRepoDetected) {
+    lines.push(chalk.yellow('Detected existing Git repository'));
+    lines.push(chalk.cyan('AI Rewind will operate independently from your main Git repository'));
+    lines.push(chalk.gray('The .git-ai-tracking directory will be added to .gitignore'));
+  }
+  lines.push(chalk.green('✓ AI tracking repository initialized successfully!'));
+  lines.push(...formatCheckpointSecrets(result.secrets));
+  lines.push('');
+  lines.push(chalk.cyan('Available commands:'));
+  lines.push('  ai-rewind commit [message]  - Save current changes');
+  lines.push('  ai-rewind rollback [count]  - Revert last AI change(s)');
+  lines.push('  ai-rewind log [count]       - View change history');
+  lines.push('  ai-rewind status            - Check current status');
+  return lines.join('\n');
+}
+
+export function renderCompaction(result: CompactionResult): string {
+  const lines = [
+    chalk.gray(`Compacted ${result.foldedCommits} old checkpoint(s) into a base snapshot (${kilobytes(result.reclaimedBytes)} reclaimed)`)
+  ];
+  if (result.largeFiles.objects > 0) {
+    lines.push(chalk.gray(`Removed ${result.largeFiles.objects} unreferenced large file(s) from the content store (${formatSize(result.largeFiles.bytes)})`));
+  }
+  return lines.join('\n');
+}
+
+export function renderCommit(result: CommitResult): string {
+  if (!result.committed) {
+    return 'No changes detected';
+  }
+
+  const lines = [chalk.green('✓ Changes committed successfully!')];
+  if (result.largeFiles.length > 0) {
+    lines.push(chalk.yellow('Large and binary files (kept out of history):'));
+    lines.push(...formatLargeFiles(result.largeFiles));
+  }
+  lines.push(...formatCheckpointSecrets(result.secrets));
+  if (result.compaction) {
+    lines.push(renderCompaction(result.compaction));
+  }
+  lines.push('');
+  lines.push(chalk.cyan('Latest commits:'));
+  for (const commit of result.recentCommits) {
+    lines.push(formatCommit(commit));
+  }
+  return lines.join('\n');
+}
+
+export function renderRollbackPlan(plan: RollbackPlan, options: { dryRun?: boolean; merge?: boolean } = {}): string {
+  const lines: string[] = [];
+  if (plan.selector) {
+    lines.push(chalk.cyan(`Rolling back to ${plan.selector}: ${formatCommit(plan.target)}`));
+    lines.push('');
+  }
+  lines.push(chalk.cyan('Current history:'));
+  lines.push(formatCommit(plan.head));
+  for (const commit of plan.commits.slice(1)) {
+    lines.push(formatCommit(commit));
+  }
+
+  if (plan.uncommittedChanges.length > 0 && options.merge) {
+    lines.push('');
+    lines.push(chalk.cyan(`Uncommitted changes in ${plan.uncommittedChanges.length} file(s) will be merged onto the target and kept.`));
+  } else if (plan.uncommittedChanges.length > 0) {
+    lines.push('');
+    lines.push(chalk.yellow('Warning: You have uncommitted changes that will be lost!'));
+  }
+  if (plan.mainRepoDirty && !options.merge) {
+    lines.push('');
+    lines.push(chalk.yellow('⚠ Warning: Your main git repository has uncommitted changes.'));
+    lines.push('Rolling back AI changes may conflict with your uncommitted work.');
+  }
+
+  if (options.dryRun) {
+    lines.push('');
+    lines.push(chalk.yellow(`Would rollback ${plan.count} commit(s):`));
+    lines.push(`Target state after rollback: ${formatCommit(plan.target)}`);
+    if (plan.files.length > 0) {
+      lines.push('');
+      lines.push('Files that would be changed:');
+      lines.push(formatFileChanges(plan.files));
+    }
+  }
+  return lines.join('\n');
+}
+
+export function renderRollback(result: RollbackResult): string {
+  if (!result.applied) {
+    if (result.cancelled) {
+      return chalk.yellow('Rollback cancelled.');
+    }
+    return renderRollbackPlan(result.plan, { dryRun: true, merge: result.merged !== undefined });
+  }
+
+  const lines: string[] = [];
+  if (result.backupTag) {
+    lines.push(chalk.gray(`Backup created: ${result.backupTag}`));
+  }
+  lines.push(...formatRemovedBackups(result.removedBackups));
+  lines.push(chalk.green(`✓ Successfully rolled back ${result.plan.count} commit(s)!`));
+  if (result.backupTag) {
+    lines.push(chalk.gray(`To restore: ai-rewind forward ${result.backupTag}`));
+  }
+  if (result.merged && result.merged.length > 0) {
+    lines.push(chalk.green(`✓ Kept uncommitted changes in ${result.merged.length} file(s)`));
+  }
+  if (result.conflicts && result.conflicts.length > 0) {
+    lines.push('');
+    lines.push(chalk.yellow(`Your edits overlap the rolled-back changes in ${result.conflicts.length} file(s):`));
+    lines.push(formatConflicts(result.conflicts));
+    lines.push(chalk.gray('Resolve the <<<<<<< / >>>>>>> markers in these files, then run ai-rewind commit.'));
+  }
+  if (result.head) {
+    lines.push('');
+    lines.push(chalk.cyan('Current state:'));
+    lines.push(formatCommit(result.head));
+  }
+  return lines.join('\n');
+}
+
+export function formatConflicts(conflicts: string[]): string {
+  return conflicts.map((path) => `  ${chalk.red('C')}\t${path}`).join('\n');
+}
+
+export function renderRevert(result: RevertResult): string {
+  const lines: string[] = [];
+  if (result.dryRun) {
+    if (result.files.length === 0) {
+      return chalk.yellow(`Reverting ${result.target.shortHash} would change nothing.`);
+    }
+    lines.push(chalk.cyan(`Reverting ${formatCommit(result.target)} would change:`));
+    lines.push(formatFileChanges(result.files));
+    if (result.conflicts.length > 0) {
+      lines.push('');
+      lines.push(chalk.yellow(`Later changes touched the same lines in ${result.conflicts.length} file(s):`));
+      lines.push(formatConflicts(result.conflicts));
+      lines.push(chalk.gray('Pass --on-conflict ours (keep later changes) or --on-conflict theirs (force the revert) to resolve them.'));
+    }
+    lines.push('');
+    lines.push(chalk.gray('(Dry run - no changes made)'));
+    return lines.join('\n');
+  }
+  if (result.savedChanges) {
+    lines.push(chalk.gray(`Saved uncommitted changes first: ${formatCommit(result.savedChanges)}`));
+  }
+
+  if (result.conflicts.length > 0) {
+    lines.push(chalk.yellow(`Later checkpoints changed the same lines in ${result.conflicts.length} file(s):`));
+    lines.push(formatConflicts(result.conflicts));
+  }
+  if (result.resolution === 'abort') {
+    lines.push('');
+    lines.push(chalk.yellow(`Revert of ${result.target.shortHash} aborted; nothing was changed.`));
+    lines.push(chalk.gray('Re-run with --on-conflict ours (keep later changes) or --on-conflict theirs (force the revert).'));
+    return lines.join('\n');
+  }
+  if (result.resolution) {
+    lines.push(chalk.gray(`Resolved conflicts keeping ${result.resolution === 'ours' ? 'the later changes' : 'the reverted version'}`));
+  }
+
+  if (!result.applied || !result.commit) {
+    lines.push(chalk.yellow(`Reverting ${result.target.shortHash} changed nothing; it may already be undone.`));
+    return lines.join('\n');
+  }
+  lines.push(chalk.green(`✓ Reverted ${formatCommit(result.target)}`));
+  if (result.files.length > 0) {
+    lines.push('');
+    lines.push(formatFileChanges(result.files));
+  }
+  lines.push('');
+  lines.push(chalk.cyan('New checkpoint:'));
+  lines.push(formatCommit(result.commit));
+  return lines.join('\n');
+}
+
+export function formatHunk(hunk: DiffHunk): string {
+  const lines = [chalk.bold(`[${hunk.id}] ${hunk.path}`), chalk.cyan(hunk.header)];
+  for (const line of hunk.lines) {
+    lines.push(line.startsWith('+') ? chalk.green(line) : line.startsWith('-') ? chalk.red(line) : line);
+  }
+  return lines.join('\n');
+}
+
+export function renderPromote(result: PromoteResult): string {
+  const lines: string[] = [];
+  if (result.patches.length > 0) {
+    lines.push(chalk.green(`✓ Wrote ${result.patches.length} patch file(s) from ${result.checkpoints.length} checkpoint(s):`));
+    lines.push(...result.patches.map((path) => `  ${path}`));
+    lines.push('');
+    lines.push(chalk.gray('Apply them with "git am <files>"'));
+  } else {
+    const target = result.branch ? `main repository branch ${chalk.cyan(result.branch)}` : 'the main repository (detached HEAD)';
+    lines.push(chalk.green(`✓ Promoted ${result.checkpoints.length} checkpoint(s) to ${target}${result.squashed ? ' as one commit' : ''}:`));
+    lines.push(...result.commits.map((commit) => `  ${chalk.yellow(commit.hash.slice(0, 7))} ${commit.subject}`));
+  }
+  if (result.skipped.length > 0) {
+    lines.push(chalk.gray(`Skipped ${result.skipped.length} checkpoint(s) without file changes: ${result.skipped.map((commit) => commit.shortHash).join(', ')}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderHunkList(list: HunkList): string {
+  const hunks = list.files.flatMap((file) => file.hunks);
+  const binary = list.files.filter((file) => file.binary);
+  const lines = [chalk.cyan(`Changes since ${formatCommit(list.target)}:`)];
+  if (hunks.length === 0) {
+    lines.push(chalk.gray('No changes'));
+  }
+  for (const hunk of hunks) {
+    lines.push('');
+    lines.push(formatHunk(hunk));
+  }
+  if (binary.length > 0) {
+    lines.push('');
+    lines.push(chalk.gray(`Binary files can't be split into hunks: ${binary.map((file) => file.path).join(', ')}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderHunkRollback(result: HunkRollbackResult): string {
+  if (result.reverted.length === 0) {
+    return chalk.gray('No hunks selected; nothing was changed.');
+  }
+  const lines: string[] = [];
+  if (result.savedChanges) {
+    lines.push(chalk.gray(`Saved uncommitted changes first: ${formatCommit(result.savedChanges)}`));
+  }
+  lines.push(
+    chalk.green(
+      `✓ Reverted ${result.reverted.length} hunk(s) to ${result.target.shortHash}, kept ${result.kept}`
+    )
+  );
+  for (const hunk of result.reverted) {
+    lines.push(`  ${chalk.yellow(`[${hunk.id}]`)} ${hunk.path} ${chalk.gray(hunk.header)}`);
+  }
+  if (result.checkpoint) {
+    lines.push('');
+    lines.push(chalk.cyan('New checkpoint:'));
+    lines.push(formatCommit(result.checkpoint));
+  }
+  return lines.join('\n');
+}
+
+export function renderForward(result: ForwardResult): string {
+  return [
+    chalk.gray(`Backup created: ${result.backupTag}`),
+    ...formatRemovedBackups(result.removedBackups),
+    chalk.green(`✓ Successfully restored to ${result.target}`),
+    chalk.gray(`To undo: ai-rewind forward ${result.backupTag}`),
+    '',
+    chalk.cyan('Current state:'),
+    formatCommit(result.head),
+  ].join('\n');
+}
+
+export function renderForwardPreview(preview: RestorePreview): string {
+  const lines = [chalk.yellow(`Restoring ${preview.revision} will change:`)];
+  lines.push(preview.files.length > 0 ? formatFileChanges(preview.files) : chalk.gray('  (no file differences)'));
+  return lines.join('\n');
+}
+
+export function renderStatus(result: StatusResult): string {
+  const lines = [chalk.cyan.bold('AI Rewind - Status'), RULE];
+
+  lines.push('');
+  lines.push(chalk.yellow('Current Working Directory:'));
+  lines.push(result.workTree);
+
+  lines.push('');
+  lines.push(chalk.yellow('Tracking Repository Status:'));
+  if (result.branch) {
+    lines.push(`On branch ${result.branch}`);
+  }
+  lines.push(result.changes.length > 0 ? formatStatusEntries(result.changes) : 'No uncommitted changes');
+
+  if (result.mainRepo) {
+    lines.push('');
+    lines.push(chalk.yellow('Main Repository:'));
+    lines.push(formatMainRepo(result.mainRepo));
+    const latest = result.recentCommits[0]?.main;
+    if (latest && (latest.head !== result.mainRepo.head || latest.branch !== result.mainRepo.branch)) {
+      lines.push(chalk.yellow(`The latest checkpoint was taken on ${formatMainRepo(latest)}; the main repository has moved since`));
+    }
+  }
+
+  if (result.largeFiles.length > 0) {
+    lines.push('');
+    lines.push(chalk.yellow('Large and Binary Files (kept out of history):'));
+    lines.push(...formatLargeFiles(result.largeFiles));
+  }
+
+  lines.push('');
+  lines.push(chalk.yellow('Recent Commits:'));
+  for (const commit of result.recentCommits) {
+    lines.push(commit.main ? `${formatCommit(commit)} ${chalk.gray(`[${formatMainRepo(commit.main)}]`)}` : formatCommit(commit));
+  }
+
+  lines.push('');
+  lines.push(chalk.yellow('Files Changed in Last Commit:'));
+  lines.push(
+    result.lastCommitFiles.length > 0
+      ? formatFileChanges(result.lastCommitFiles)
+      : '(No previous commits to compare)'
+  );
+  return lines.join('\n');
+}
+
+export function renderLog(commits: CommitEntry[], paths: TrackerConfig, filter: CommitFilter = {}): string {
+  const lines = [chalk.cyan.bold('AI Rewind - Change Log'), RULE];
+  lines.push('');
+  const filterText = formatFilter(filter);
+  lines.push(`Showing last ${commits.length} changes${filterText ? ` (${filterText})` : ''}:`);
+  lines.push('');
+  for (const commit of commits) {
+    lines.push(`* ${formatCommit(commit, { refs: true })}`);
+    const details = [formatMetadata(commit.metadata), commit.main ? formatMainRepo(commit.main) : ''].filter(Boolean).join(', ');
+    if (details) {
+      lines.push(`  ${chalk.gray(details)}`);
+    }
+  }
+
+  const git = `git --git-dir=${paths.gitDir} --work-tree=${paths.workTree}`;
+  lines.push('');
+  lines.push(RULE);
+  lines.push('');
+  lines.push(chalk.gray('To see more details for a specific commit:'));
+  lines.push(chalk.gray(`  ${git} show [commit-hash]`));
+  lines.push('');
+  lines.push(chalk.gray('To see all changes in detail:'));
+  lines.push(chalk.gray(`  ${git} log -p`));
+  return lines.join('\n');
+}
+
+function formatRemovedBackups(tags: string[]): string[] {
+  return tags.map((tag) => chalk.gray(`Removed old backup: ${tag}`));
+}
+
+function formatBackup(backup: BackupEntry): string[] {
+  const lines = [`  ${chalk.green(backup.tag)}${backup.pinned ? chalk.cyan(' (pinned)') : ''}`];
+  if (backup.commit) {
+    lines.push(`    ${chalk.gray(`${backup.commit.shortHash} - ${backup.commit.date.slice(0, 10)} - ${backup.commit.subject}`)}`);
+  }
+  return lines;
+}
+
+export function renderBackups(backups: BackupEntry[]): string {
+  const lines = [chalk.cyan.bold('AI Rewind - Available Backups'), RULE];
+
+  if (backups.length === 0) {
+    lines.push(chalk.yellow('No backups found'));
+    lines.push('');
+    lines.push(chalk.gray('Backups are created automatically when you rollback'));
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  lines.push(chalk.yellow('Backup tags:'));
+  for (const backup of backups) {
+    lines.push(...formatBackup(backup));
+  }
+  lines.push('');
+  lines.push(chalk.gray('To restore: ai-rewind forward <backup-tag>'));
+  lines.push(chalk.gray('Manage: ai-rewind backups show|pin|unpin|delete <backup-tag>, ai-rewind backups prune'));
+  return lines.join('\n');
+}
+
+export function renderBackupDetails(backup: BackupDetails): string {
+  const lines = formatBackup(backup);
+  lines.push('');
+  if (backup.files.length === 0) {
+    lines.push(chalk.gray('No differences from HEAD'));
+    return lines.join('\n');
+  }
+  lines.push(chalk.yellow('Restoring this backup would change:'));
+  lines.push(backup.stat.trimEnd());
+  lines.push('');
+  lines.push(backup.patch.trimEnd());
+  return lines.join('\n');
+}
+
+export function renderBackupPrune(result: BackupPruneResult): string {
+  const { count, maxAgeDays } = result.retention;
+  const policy = [
+    count > 0 ? `keep newest ${count}` : 'no count limit',
+    maxAgeDays > 0 ? `max age ${maxAgeDays} day(s)` : 'no age limit',
+  ].join(', ');
+  const lines = [chalk.gray(`Retention: ${policy}, ${result.retention.pinned.length} pinned`)];
+
+  for (const removal of result.removed) {
+    const reason = removal.reason === 'count' ? `beyond the newest ${count}` : `older than ${maxAgeDays} day(s)`;
+    lines.push(`${result.dryRun ? 'Would remove' : 'Removed'} ${chalk.yellow(removal.tag)} ${chalk.gray(`(${reason})`)}`);
+  }
+  lines.push(
+    result.removed.length === 0
+      ? chalk.green(`✓ Nothing to prune, ${result.kept} backup(s) kept`)
+      : chalk.green(`✓ ${result.dryRun ? 'Would remove' : 'Removed'} ${result.removed.length} backup(s), ${result.kept} kept`)
+  );
+  if (result.largeFiles.objects > 0) {
+    lines.push(
+      chalk.gray(
+        `${result.dryRun ? 'Would free' : 'Freed'} ${formatSize(result.largeFiles.bytes)} from ${result.largeFiles.objects} unreferenced large file(s) in the content store`
+      )
+    );
+  }
+  return lines.join('\n');
+}
+
+function formatDiffStat(stat: DiffStat): string {
+  if (stat.filesChanged === 0) {
+    return chalk.gray('same as HEAD');
+  }
+  return `${stat.filesChanged} file(s) differ from HEAD, ${chalk.green(`+${stat.insertions}`)} ${chalk.red(`-${stat.deletions}`)}`;
+}
+
+export function renderCheckpoint(result: CheckpointResult): string {
+  const lines: string[] = [];
+  if (result.savedChanges) {
+    lines.push(chalk.gray(`Saved uncommitted changes first: ${formatCommit(result.savedChanges)}`));
+  }
+  lines.push(chalk.green(`✓ Created checkpoint ${result.checkpoint.name}`));
+  lines.push(formatCommit(result.checkpoint.commit));
+  lines.push(chalk.gray(`To restore: ai-rewind restore ${result.checkpoint.name}`));
+  return lines.join('\n');
+}
+
+export function renderCheckpoints(checkpoints: NamedCheckpoint[]): string {
+  const lines = [chalk.cyan.bold('AI Rewind - Named Checkpoints'), RULE];
+
+  if (checkpoints.length === 0) {
+    lines.push(chalk.yellow('No named checkpoints'));
+    lines.push('');
+    lines.push(chalk.gray('Create one with: ai-rewind checkpoint <name> -m "message"'));
+    return lines.join('\n');
+  }
+
+  for (const checkpoint of checkpoints) {
+    lines.push('');
+    lines.push(`${chalk.green(checkpoint.name)} ${chalk.gray(checkpoint.createdAt.slice(0, 16).replace('T', ' '))}`);
+    if (checkpoint.message) {
+      lines.push(`  ${checkpoint.message.split('\n')[0]}`);
+    }
+    lines.push(`  ${chalk.gray(`${checkpoint.commit.shortHash} - ${checkpoint.commit.subject}`)}`);
+    lines.push(`  ${formatDiffStat(checkpoint.diffstat)}`);
+  }
+  lines.push('');
+  lines.push(chalk.gray('To restore: ai-rewind restore <name>'));
+  return lines.join('\n');
+}
+
+export function renderCheckpointRestore(result: CheckpointRestoreResult): string {
+  const lines = [chalk.gray(`Backup created: ${result.backupTag}`)];
+  lines.push(...formatRemovedBackups(result.removedBackups));
+  lines.push(chalk.green(`✓ Restored checkpoint ${result.name}`));
+  lines.push(chalk.gray(`To undo: ai-rewind forward ${result.backupTag}`));
+  lines.push('');
+  lines.push(chalk.cyan('Current state:'));
+  lines.push(formatCommit(result.head));
+  return lines.join('\n');
+}
+
+export function renderExperiments(list: ExperimentList): string {
+  const lines = [chalk.cyan.bold('AI Rewind - Experiments'), RULE];
+  const mainMarker = list.current === list.mainBranch ? chalk.green('* ') : '  ';
+  lines.push(`${mainMarker}${chalk.green(list.mainBranch)} ${chalk.gray('(main line)')}`);
+
+  for (const experiment of list.experiments) {
+    const marker = experiment.current ? chalk.green('* ') : '  ';
+    const divergence = chalk.gray(`+${experiment.ahead}/-${experiment.behind} vs ${list.mainBranch}`);
+    lines.push(`${marker}${chalk.yellow(experiment.name)} ${divergence}`);
+    lines.push(`    ${chalk.gray(`${experiment.head.shortHash} - ${experiment.head.date.slice(0, 10)} - ${experiment.head.subject}`)}`);
+  }
+  if (list.experiments.length === 0) {
+    lines.push('');
+    lines.push(chalk.gray('Start one with: ai-rewind experiment start <name>'));
+  }
+  return lines.join('\n');
+}
+
+export function renderExperimentSwitch(result: ExperimentSwitchResult): string {
+  const lines: string[] = [];
+  if (result.savedChanges) {
+    lines.push(chalk.gray(`Saved uncommitted changes on ${result.previous ?? 'the previous state'}: ${formatCommit(result.savedChanges)}`));
+  }
+  lines.push(chalk.green(`✓ ${result.created ? 'Started' : 'Switched to'} ${result.branch}`));
+  lines.push('');
+  lines.push(chalk.cyan('Current state:'));
+  lines.push(formatCommit(result.head));
+  return lines.join('\n');
+}
+
+export function renderExperimentComparison(comparison: ExperimentComparison): string {
+  const lines = [
+    chalk.cyan(`Comparing ${comparison.a} → ${comparison.b}`),
+    `  ${chalk.yellow(comparison.a)}: ${formatCommit(comparison.aHead)}`,
+    `  ${chalk.yellow(comparison.b)}: ${formatCommit(comparison.bHead)}`,
+  ];
+  if (comparison.base) {
+    lines.push(`  ${chalk.gray('common:')} ${formatCommit(comparison.base)}`);
+  }
+  lines.push('');
+  if (comparison.files.length === 0) {
+    lines.push(chalk.gray('Both have identical files'));
+    return lines.join('\n');
+  }
+  lines.push(comparison.stat.trimEnd());
+  lines.push('');
+  lines.push(comparison.patch.trimEnd());
+  return lines.join('\n');
+}
+
+export function renderExperimentAdopt(result: ExperimentAdoptResult): string {
+  const lines: string[] = [];
+  if (result.savedChanges) {
+    lines.push(chalk.gray(`Saved uncommitted changes first: ${formatCommit(result.savedChanges)}`));
+  }
+  lines.push(chalk.gray(`Backup of the previous ${result.mainBranch} (pinned): ${result.backupTag}`));
+  lines.push(...formatRemovedBackups(result.removedBackups));
+  lines.push(chalk.green(`✓ Adopted experiment ${result.name} as ${result.mainBranch}`));
+  lines.push(chalk.gray(`To undo: ai-rewind forward ${result.backupTag}`));
+  lines.push('');
+  lines.push(chalk.cyan('Current state:'));
+  lines.push(formatCommit(result.head));
+  return lines.join('\n');
+}
+
+function formatIgnoreRule(rule: IgnoreRule): string {
+  const location = rule.source === 'config' ? `excludePatterns[${rule.line - 1}]` : `${rule.file}:${rule.line}`;
+  return `${location} ${chalk.cyan(rule.pattern)}`;
+}
+
+export function renderIgnoreList(list: IgnoreList): string {
+  const lines = [chalk.cyan.bold('Ignore Rules'), RULE];
+  if (list.rules.length === 0) {
+    lines.push(chalk.gray('No ignore rules'));
+  }
+  for (const rule of list.rules) {
+    lines.push(`  ${formatIgnoreRule(rule)}`);
+  }
+  if (!list.exists) {
+    lines.push('');
+    lines.push(chalk.gray('No .ai-rewindignore yet. Add patterns with "ai-rewind ignore add <pattern>"'));
+  }
+  lines.push('');
+  lines.push(chalk.gray("The project's .gitignore files apply as well; later rules win."));
+  return lines.join('\n');
+}
+
+export function renderIgnoreChecks(checks: IgnoreCheck[]): string {
+  return checks.map((check) => {
+    if (!check.rule) {
+      return `${chalk.green('✓')} ${check.path} ${chalk.gray('not ignored, no rule matches')}`;
+    }
+    const rule = formatIgnoreRule(check.rule);
+    if (check.ignored && check.tracked) {
+      return [
+        `${chalk.yellow('⚠')} ${check.path} ${chalk.gray('ignored by')} ${rule}${chalk.yellow(', but still tracked from an earlier checkpoint')}`,
+        chalk.gray('  Run "ai-rewind ignore untrack" to stop checkpointing it'),
+      ].join('\n');
+    }
+    if (check.ignored) {
+      return `${chalk.red('✗')} ${check.path} ${chalk.gray('ignored by')} ${rule}`;
+    }
+    return `${chalk.green('✓')} ${check.path} ${chalk.gray('re-included by')} ${rule}`;
+  }).join('\n');
+}
+
+export function renderIgnoreUntrack(result: IgnoreUntrackResult): string {
+  if (result.files.length === 0) {
+    return chalk.green('✓ No ignored files are tracked');
+  }
+  const lines = [chalk.yellow(`${result.dryRun ? 'Would stop' : 'Stopped'} tracking ${result.files.length} ignored file(s) (they stay on disk):`)];
+  lines.push(...result.files.map((file) => chalk.gray(`  ${file}`)));
+  if (result.commit) {
+    lines.push(chalk.green(`✓ ${formatCommit(result.commit)}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderIgnoreAdd(result: IgnoreAddResult): string {
+  const lines = result.added.map((pattern) => chalk.green(`✓ Added ${pattern}`));
+  lines.push(...result.existing.map((pattern) => chalk.gray(`${pattern} is already ignored`)));
+  if (result.untracked) {
+    lines.push(renderIgnoreUntrack(result.untracked));
+  }
+  return lines.join('\n');
+}
+
+export function renderBundleExport(result: BundleExportResult): string {
+  const lines = [chalk.green(`✓ Exported ${result.commits} checkpoint(s) to ${result.path} (${formatSize(result.size)})`)];
+  lines.push(...result.refs.map((ref) => chalk.gray(`  ${ref.replace(/^refs\/(heads|tags)\//, '')}`)));
+  if (result.largeFiles.objects > 0) {
+    lines.push(chalk.gray(`  Large file contents: ${result.largeFiles.objects} (${formatSize(result.largeFiles.bytes)})`));
+  }
+  if (result.pinnedBackups.length > 0) {
+    lines.push(chalk.gray(`  Pinned backups: ${result.pinnedBackups.join(', ')}`));
+  }
+  lines.push('');
+  lines.push(chalk.gray(`Import it elsewhere with "ai-rewind import ${result.path}"`));
+  return lines.join('\n');
+}
+
+export function renderBundleImport(result: BundleImportResult): string {
+  const lines = [chalk.green(`✓ Imported ${result.commits} new checkpoint(s) from ${result.path}`)];
+  for (const branch of result.branches) {
+    lines.push(`  ${branch.from} ${chalk.gray('->')} ${chalk.cyan(branch.to)}`);
+  }
+  if (result.tags.length > 0) {
+    lines.push(chalk.gray(`  Tags: ${result.tags.join(', ')}`));
+  }
+  if (result.skippedTags.length > 0) {
+    lines.push(chalk.yellow(`  Kept existing tags: ${result.skippedTags.join(', ')}`));
+  }
+  if (result.pinnedBackups.length > 0) {
+    lines.push(chalk.gray(`  Pinned backups: ${result.pinnedBackups.join(', ')}`));
+  }
+  if (result.largeFiles > 0) {
+    lines.push(chalk.gray(`  Large file contents added to the store: ${result.largeFiles}`));
+  }
+  if (result.head) {
+    lines.push('');
+    lines.push(`Tracking history restored; current checkpoint: ${formatCommit(result.head)}`);
+    lines.push(chalk.gray('Working files were not changed. Run "ai-rewind status" to compare, or "ai-rewind forward <commit>" to restore one.'));
+  } else if (!result.restored && result.branches.length > 0) {
+    lines.push('');
+    const name = result.branches[0].to.replace(/^experiment\//, '');
+    lines.push(chalk.gray(`Review it with "ai-rewind experiment switch ${name}" or "ai-rewind experiment compare <main> ${name}"`));
+  }
+  return lines.join('\n');
+}
+
+export function renderSecretScan(result: SecretScanResult): string {
+  const scope = result.revision ? `checkpoint ${result.revision}` : `${result.scannedCommits} checkpoint(s)`;
+  if (result.findings.length === 0) {
+    return chalk.green(`✓ No secrets found in ${scope}`);
+  }
+  const lines = [chalk.red(`✗ ${result.findings.length} possible secret(s) found in ${scope}:`)];
+  let commit: string | undefined;
+  for (const finding of result.findings) {
+    if (finding.commit && finding.commit !== commit) {
+      commit = finding.commit;
+      lines.push(chalk.yellow(commit.slice(0, 7)));
+    }
+    lines.push(formatSecretFinding(finding));
+  }
+  lines.push('');
+  lines.push(chalk.gray('Existing checkpoints keep them. To start a clean history, delete .git-ai-tracking and run "ai-rewind init" again.'));
+  return lines.join('\n');
+}
+
+export interface DiffRenderOptions {
+  sideBySide?: boolean;
+  // Terminal columns available to the side-by-side layout
+  width?: number;
+}
+
+// Narrower terminals get the unified layout even when side-by-side is asked for
+const SIDE_BY_SIDE_MIN_WIDTH = 100;
+const LINE_NUMBER_WIDTH = 5;
+const ADDED_BACKGROUND = chalk.bgRgb(0, 48, 0);
+const REMOVED_BACKGROUND = chalk.bgRgb(64, 0, 0);
+
+export function renderDiff(result: DiffResult, options: DiffRenderOptions = {}): string {
+  const since = result.sinceMainCommit;
+  if (since) {
+    const head = since.head.slice(0, 7);
+    if (!result.patch) {
+      return `No AI changes since main repository commit ${head}`;
+    }
+    return `${chalk.gray(`AI changes since main repository commit ${head} (${since.checkpoints.length} checkpoint(s))`)}\n\n${formatDiffOutput(result, options)}`;
+  }
+  if (!result.patch) {
+    return result.to ? `No changes between ${result.from} and ${result.to}` : 'No changes to show';
+  }
+  const output = formatDiffOutput(result, options);
+  return result.to ? `${chalk.gray(`Changes from ${result.from} to ${result.to}`)}\n\n${output}` : output;
+}
+
+function formatDiffOutput(result: DiffResult, options: DiffRenderOptions): string {
+  const width = options.width ?? 80;
+  if (result.format === 'stat') {
+    return result.patch
+      .split('\n')
+      .map((line) => line.replace(/^(.*\|\s+\d+ )(\+*)(-*)$/, (_, file, added, removed) => `${file}${chalk.green(added)}${chalk.red(removed)}`))
+      .join('\n');
+  }
+  if (result.format === 'name-only') {
+    return result.patch;
+  }
+  if (result.format === 'patch' && options.sideBySide && width >= SIDE_BY_SIDE_MIN_WIDTH) {
+    return formatSideBySide(result.patch, width);
+  }
+  return formatPatch(result.patch, result.format === 'word-diff');
+}
+
+// Commit and file headers, then hunks with syntax highlighting on a tinted background for
+// changed lines. Word diffs mark their changes inline instead: [-removed-]{+added+}
+export function formatPatch(patch: string, wordDiff = false): string {
+  let language: Language | null = null;
+  let inFile = false;
+  let inHunk = false;
+  return patch
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('diff --git ')) {
+        language = languageFor(diffGitPath(line));
+        inFile = true;
+        inHunk = false;
+        return chalk.bold(line);
+      }
+      if (line.startsWith('@@')) {
+        inHunk = true;
+        return line.replace(/^(@@[^@]*@@)/, (header) => chalk.cyan(header));
+      }
+      if (!inHunk) {
+        return line.startsWith('commit ') ? chalk.yellow(line) : inFile ? chalk.bold(line) : line;
+      }
+      if (wordDiff) {
+        return line
+          .replace(/\[-[\s\S]*?-\]/g, (removed) => chalk.red(removed))
+          .replace(/\{\+[\s\S]*?\+\}/g, (added) => chalk.green(added));
+      }
+      return formatPatchLine(line, language);
+    })
+    .join('\n');
+}
+
+function formatPatchLine(line: string, language: Language | null): string {
+  const marker = line.charAt(0);
+  const code = line.slice(1);
+  if (marker === '+') {
+    return chalk.green('+') + formatChangedCode(code, language, 'added');
+  }
+  if (marker === '-') {
+    return chalk.red('-') + formatChangedCode(code, language, 'removed');
+  }
+  if (marker === '\\') {
+    return chalk.gray(line);
+  }
+  return marker + highlightCode(code, language);
+}
+
+// Changed code keeps its syntax colours on a tinted background when the terminal has 256
+// colours; otherwise the whole line takes the change colour
+function formatChangedCode(code: string, language: Language | null, kind: 'added' | 'removed'): string {
+  if (!language || chalk.level < 2) {
+    return kind === 'added' ? chalk.green(code) : chalk.red(code);
+  }
+  return (kind === 'added' ? ADDED_BACKGROUND : REMOVED_BACKGROUND)(highlightCode(code, language));
+}
+
+// Old and new versions in two columns with line numbers; removed and added lines are paired
+// row by row so a changed line sits next to its replacement
+export function formatSideBySide(patch: string, width: number): string {
+  const column = Math.floor((width - 3) / 2) - LINE_NUMBER_WIDTH - 1;
+  const lines: string[] = [];
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      break;
+    }
+    lines.push(line.startsWith('commit ') ? chalk.yellow(line) : line);
+  }
+
+  for (const file of parseDiff(patch)) {
+    const language = languageFor(file.path);
+    const status = file.header.some((line) => line.startsWith('new file mode'))
+      ? ' (added)'
+      : file.header.some((line) => line.startsWith('deleted file mode'))
+        ? ' (deleted)'
+        : '';
+    lines.push(chalk.bold(`${file.path}${status}`));
+    if (file.binary) {
+      lines.push(chalk.gray('  Binary file changed'));
+      continue;
+    }
+    for (const hunk of file.hunks) {
+      const numbers = hunk.header.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)/);
+      let oldLine = Number.parseInt(numbers?.[1] ?? '1');
+      let newLine = Number.parseInt(numbers?.[2] ?? '1');
+      let removed: string[] = [];
+      let added: string[] = [];
+      const flush = () => {
+        for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+          const left = i < removed.length ? sideBySideCell(oldLine++, removed[i], column, language, 'removed') : sideBySideCell(null, '', column, language);
+          const right = i < added.length ? sideBySideCell(newLine++, added[i], column, language, 'added') : sideBySideCell(null, '', column, language);
+          lines.push(`${left} ${chalk.gray('│')} ${right}`);
+        }
+        removed = [];
+        added = [];
+      };
+
+      lines.push(chalk.cyan(hunk.header));
+      for (const line of hunk.lines) {
+        if (line.startsWith('-')) {
+          removed.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+          added.push(line.slice(1));
+        } else if (!line.startsWith('\\')) {
+          flush();
+          const text = line.slice(1);
+          lines.push(`${sideBySideCell(oldLine++, text, column, language)} ${chalk.gray('│')} ${sideBySideCell(newLine++, text, column, language)}`);
+        }
+      }
+      flush();
+    }
+  }
+  return lines.join('\n');
+}
+
+// Padding and truncation work on the plain text, before any colour codes are added
+function sideBySideCell(number: number | null, text: string, column: number, language: Language | null, kind?: 'added' | 'removed'): string {
+  let plain = text.replace(/\t/g, '    ');
+  if (plain.length > column) {
+    plain = `${plain.slice(0, column - 1)}…`;
+  }
+  plain += ' '.repeat(column - plain.length);
+  const gutter = chalk.gray((number === null ? '' : number.toString()).padStart(LINE_NUMBER_WIDTH));
+  return `${gutter} ${kind ? formatChangedCode(plain, language, kind) : highlightCode(plain, language)}`;
+}
+
+export function renderStats(stats: StatsResult): string {
+  const lines = [chalk.cyan.bold('📊 AI Rewind Statistics'), RULE];
+  const filterText = formatFilter(stats.filter);
+  if (filterText) {
+    lines.push(chalk.gray(`Filtered by ${filterText}`));
+  }
+
+  lines.push('');
+  lines.push(chalk.yellow('Repository Info:'));
+  lines.push(`  Total Commits: ${chalk.green(stats.totalCommits)}`);
+  lines.push(`  Files Tracked: ${chalk.green(stats.filesTracked)}`);
+  lines.push(`  Repository Size: ${chalk.green(kilobytes(stats.repositorySizeBytes))}`);
+
+  lines.push('');
+  lines.push(chalk.yellow('Timeline:'));
+  lines.push(`  First Commit: ${stats.firstCommitDate ? chalk.green(stats.firstCommitDate) : chalk.gray('none')}`);
+  lines.push(`  Last Commit: ${stats.lastCommitDate ? chalk.green(stats.lastCommitDate) : chalk.gray('none')}`);
+
+  lines.push('');
+  lines.push(chalk.yellow('Recent Activity:'));
+  lines.push(`  Files Changed in Last Commit: ${chalk.green(stats.filesChangedInLastCommit)}`);
+
+  if (stats.topFiles.length > 0) {
+    lines.push('');
+    lines.push(chalk.yellow('Most Frequently Modified Files:'));
+    for (const file of stats.topFiles) {
+      lines.push(`  ${chalk.blue(file.path)}: ${chalk.green(`${file.changes} changes`)}`);
+    }
+  }
+
+  if (stats.agents.length > 0) {
+    lines.push('');
+    lines.push(chalk.yellow('Checkpoints by Agent:'));
+    for (const entry of stats.agents) {
+      lines.push(`  ${chalk.blue(entry.agent)}: ${chalk.green(`${entry.commits} commits`)}`);
+    }
+  }
+
+  lines.push('');
+  lines.push(chalk.yellow('Configuration:'));
+  lines.push(`  Config File: ${stats.config.configFilePresent ? chalk.green('Present') : chalk.gray('Not found')}`);
+  lines.push(`  Auto-commit Threshold: ${chalk.green(`${stats.config.autoCommitThreshold} files`)}`);
+  lines.push(`  Max Commits: ${chalk.green(stats.config.maxCommits)}`);
+
+  const { largeFiles } = stats;
+  lines.push('');
+  lines.push(chalk.yellow('Large Files:'));
+  lines.push(
+    largeFiles.maxFileSize > 0
+      ? `  Limit: ${chalk.green(formatSize(largeFiles.maxFileSize))}, policy: ${chalk.green(largeFiles.policy)}`
+      : `  Limit: ${chalk.gray('none')}`
+  );
+  lines.push(...formatLargeFiles(largeFiles.files));
+  if (largeFiles.storedObjects > 0) {
+    lines.push(`  Content Store: ${chalk.green(`${largeFiles.storedObjects} object(s), ${formatSize(largeFiles.storedBytes)}`)}`);
+  }
+  if (largeFiles.unreferencedObjects > 0) {
+    lines.push(
+      `  Unreferenced: ${chalk.yellow(`${largeFiles.unreferencedObjects} object(s), ${formatSize(largeFiles.unreferencedBytes)}`)} ${chalk.gray('(run "ai-rewind compact" or "ai-rewind backups prune")')}`
+    );
+  }
+
+  if (stats.compaction.compactions > 0) {
+    lines.push('');
+    lines.push(chalk.yellow('History Compaction:'));
+    lines.push(`  Compactions: ${chalk.green(stats.compaction.compactions)}`);
+    lines.push(`  Checkpoints Folded: ${chalk.green(stats.compaction.foldedCommits)}`);
+    lines.push(`  Space Reclaimed: ${chalk.green(kilobytes(stats.compaction.reclaimedBytes))}`);
+  }
+  return lines.join('\n');
+}
+
+const RESTORE_LABELS: Record<string, [string, string]> = {
+  restore: ['Restore', 'Restored'],
+  recreate: ['Recreate', 'Recreated'],
+  delete: ['Delete', 'Deleted'],
+};
+
+export function renderFileRollback(result: FileRollbackResult): string {
+  const target = formatCommit(result.target);
+  if (result.files.length === 0) {
+    return chalk.green(`✓ ${result.patterns.join(', ')} already match ${target}`);
+  }
+
+  const lines = [
+    result.dryRun
+      ? chalk.yellow(`Would restore ${result.files.length} file(s) to ${target}:`)
+      : chalk.green(`✓ Restored ${result.files.length} file(s) to ${target}:`),
+  ];
+  for (const file of result.files) {
+    const label = RESTORE_LABELS[file.action][result.dryRun ? 0 : 1];
+    const color = file.action === 'delete' ? chalk.red : file.action === 'recreate' ? chalk.green : chalk.yellow;
+    lines.push(`  ${color(label.padEnd(9))} ${file.path}`);
+  }
+
+  if (!result.dryRun) {
+    const paths = result.patterns.join(' ');
+    if (result.savedChanges) {
+      lines.unshift(chalk.gray(`Saved uncommitted changes first: ${formatCommit(result.savedChanges)}`));
+    }
+    lines.push('');
+    lines.push(chalk.yellow('Note: Changes are not committed yet.'));
+    lines.push(`To save: ${chalk.cyan(`node ~/ai-rewind/dist/cli.js commit "Restored ${paths}"`)}`);
+    lines.push(`To undo: ${chalk.cyan(`node ~/ai-rewind/dist/cli.js rollback-file ${paths} --commit HEAD`)}`);
+  }
+  return lines.join('\n');
+}
+
+export function renderInstall(result: InstallResult): string {
+  if (result.alreadyConfigured) {
+    return chalk.yellow('Note: AI Rewind section already exists in your CLAUDE.md');
+  }
+  return [
+    chalk.green('✓ AI Rewind has been added to your global CLAUDE.md'),
+    `${chalk.cyan('Location:')} ${result.claudeMdPath}`,
+    '',
+    chalk.yellow('Next steps:'),
+    `1. Navigate to any project: ${chalk.cyan('cd /path/to/project')}`,
+    `2. Initialize AI Rewind: ${chalk.cyan(`node ${result.installPath}/dist/cli.js init`)}`,
+    '',
+    chalk.gray('Claude will now automatically use AI Rewind in all your projects!'),
+  ].join('\n');
+}
+
+export function renderHook(result: HookResult): string {
+  if (result.skipped === 'not-initialized') {
+    return chalk.gray('AI Rewind is not initialized here, skipping checkpoint');
+  }
+  if (result.skipped || !result.commit) {
+    return chalk.gray(`Ignoring ${result.tool ?? 'unknown tool'}`);
+  }
+  if (!result.commit.committed || !result.commit.commit) {
+    return chalk.gray(`No changes to checkpoint (${result.message})`);
+  }
+  return chalk.green(`✓ Checkpoint ${result.commit.commit.shortHash}: ${result.message}`);
+}
+
+export function renderHookInstall(result: HookInstallResult): string {
+  if (result.alreadyConfigured) {
+    return chalk.yellow(`Note: AI Rewind hooks are already registered in ${result.settingsPath}`);
+  }
+  return [
+    chalk.green(`✓ Registered ${result.events.join(' and ')} hooks`),
+    `${chalk.cyan('Settings:')} ${result.settingsPath}`,
+    `${chalk.cyan('Command:')} ${result.command} <event>`,
+    '',
+    chalk.gray('Edits and shell commands are now checkpointed automatically in initialized projects.'),
+  ].join('\n');
+}
+
+export interface ConfigView {
+  configPath: string;
+  exists: boolean;
+  userConfigPath: string | null;
+  userExists: boolean;
+  created: boolean;
+  settings: TrackerConfigOptions;
+  // Effective settings with the layers they came from
+  values: ConfigValue[];
+  // Problems found while loading; affected settings fall back to the layers below
+  issues: ConfigIssue[];
+}
+
+const CONFIG_SOURCE_LABELS: Record<ConfigSource, string> = {
+  default: 'default',
+  user: 'user config',
+  project: 'project config',
+  env: 'environment',
+  cli: '--set'
+};
+
+function formatConfigIssues(issues: ConfigIssue[]): string[] {
+  return issues.map((issue) => chalk.yellow(`⚠ ${issue.origin}: ${issue.message}`));
+}
+
+function formatConfigSources(value: ConfigValue): string {
+  // Highest layer first: "project config + default" reads as "project extends default"
+  return chalk.gray(`(${[...value.sources].reverse().map((source) => CONFIG_SOURCE_LABELS[source]).join(' + ')})`);
+}
+
+export function renderConfig(view: ConfigView): string {
+  if (view.created) {
+    return chalk.green('✓ Configuration file created: .ai-rewind.json');
+  }
+
+  const lines = [chalk.cyan.bold('AI Rewind Configuration'), RULE];
+  if (view.issues.length > 0) {
+    lines.push(...formatConfigIssues(view.issues));
+    lines.push('');
+  }
+  const describeFile = (path: string | null, exists: boolean) =>
+    path === null ? chalk.gray('none') : exists ? path : chalk.gray(`${path} (not found)`);
+  lines.push(`${chalk.yellow('User config:   ')} ${describeFile(view.userConfigPath, view.userExists)}`);
+  lines.push(`${chalk.yellow('Project config:')} ${describeFile(view.configPath, view.exists)}`);
+  lines.push('');
+
+  lines.push(chalk.cyan('Current settings:'));
+  for (const value of view.values) {
+    if (Array.isArray(value.value)) {
+      lines.push(`  ${value.key}: ${formatConfigSources(value)}`);
+      lines.push(...(value.value.length > 0 ? value.value.map((entry) => `    - ${entry}`) : [chalk.gray('    (none)')]));
+    } else {
+      lines.push(`  ${value.key}: ${JSON.stringify(value.value)} ${formatConfigSources(value)}`);
+    }
+  }
+
+  if (!view.exists && !view.userExists) {
+    lines.push('');
+    lines.push(chalk.gray('Run "ai-rewind config --create" to create config file'));
+  }
+  return lines.join('\n');
+}
+
+// Just the value, so `config get` can be used in scripts
+export function renderConfigValue(value: ConfigValue): string {
+  return typeof value.value === 'string' ? value.value : JSON.stringify(value.value);
+}
+
+export function renderConfigChange(change: ConfigChange): string {
+  const lines = formatConfigIssues(change.issues);
+  const value = JSON.stringify(change.value);
+  if (change.overriddenBy) {
+    lines.push(chalk.yellow(`⚠ Saved to ${change.configPath}, but the ${CONFIG_SOURCE_LABELS[change.overriddenBy]} value ${value} still applies`));
+  } else {
+    lines.push(
+      JSON.stringify(change.previous) === value
+        ? chalk.gray(`${change.key} is already ${value}`)
+        : chalk.green(`✓ ${change.key}: ${JSON.stringify(change.previous)} → ${value}`)
+    );
+  }
+  return lines.join('\n');
+}
+
+// --json documents are single-line so streaming commands (watch) emit NDJSON
+export function renderJson(command: string, data: unknown): string {
+  return JSON.stringify({ schemaVersion: JSON_SCHEMA_VERSION, command, ok: true, data });
+}
+
+export function renderJsonError(command: string, error: unknown): string {
+  return JSON.stringify({
+    schemaVersion: JSON_SCHEMA_VERSION,
+    command,
+    ok: false,
+    error: {
+      code: getErrorCode(error),
+      message: error instanceof Error ? error.message : String(error),
+    },
+  });
+}
@@ -0,0 +1,161 @@
+// High-confidence secret detection for content about to be checkpointed. Only lines added
+// by a diff are checked, so a secret is reported once, where it was introduced.
+import { diffGitPath } from './hunks.js';
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  // Matches within a single line; group 1, when present, is the secret itself
+  pattern: RegExp;
+  // Minimum Shannon entropy (bits per character) of the secret, to skip placeholders
+  minEntropy?: number;
+  // What redaction replaces when the secret spans several lines
+  block?: RegExp;
+  // Guess-based: findings are reported, but never block a checkpoint or get redacted
+  heuristic?: boolean;
+}
+
+export interface SecretMatch {
+  rule: SecretRule;
+  path: string;
+  // 1-based line in the new version of the file
+  line: number;
+  value: string;
+}
+
+// A trailing `ai-rewind:allow` comment on the line suppresses a false positive
+const ALLOW_MARKER = 'ai-rewind:allow';
+// Subresource and package integrity values (integrity="sha384-…") are public digests
+const INTEGRITY_HASH = /^sha(?:1|256|384|512)-/;
+const LOCK_FILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?|Cargo\.lock|poetry\.lock|composer\.lock|go\.sum)$/;
+
+export const SECRET_RULES: SecretRule[] = [
+  { id: 'aws-access-key', description: 'AWS access key ID', pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/ },
+  {
+    id: 'aws-secret-key',
+    description: 'AWS secret access key',
+    pattern: /aws.{0,20}?(?:secret|private).{0,20}?['"=:\s]([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i,
+    minEntropy: 4
+  },
+  { id: 'gcp-api-key', description: 'Google API key', pattern: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/ },
+  { id: 'azure-storage-key', description: 'Azure storage account key', pattern: /AccountKey=([A-Za-z0-9+/]{86}==)/ },
+  { id: 'github-token', description: 'GitHub token', pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/ },
+  { id: 'slack-token', description: 'Slack token', pattern: /\b(xox[baprs]-[A-Za-z0-9-]{10,})\b/ },
+  { id: 'stripe-key', description: 'Stripe live key', pattern: /\b((?:sk|rk)_live_[A-Za-z0-9]{24,})\b/ },
+  { id: 'anthropic-key', description: 'Anthropic API key', pattern: /\b(sk-ant-[A-Za-z0-9_-]{32,})/ },
+  { id: 'openai-key', description: 'OpenAI API key', pattern: /\b(sk-(?:proj-)?[A-Za-z0-9_-]{20,}T3BlbkFJ[A-Za-z0-9_-]{20,})/ },
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /(-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----)/,
+    block: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g
+  },
+  { id: 'jwt', description: 'JSON Web Token', pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/ },
+  { id: 'bearer-token', description: 'Bearer token', pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{20,}=*)/, minEntropy: 3.5 },
+  {
+    id: 'high-entropy-string',
+    description: 'High-entropy string',
+    pattern: /['"`]([A-Za-z0-9+/=_-]{32,})['"`]/,
+    minEntropy: 4.5,
+    heuristic: true
+  }
+];
+
+// Bits per character; random base64 approaches 6, English text and hex stay at or below 4
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export function scanLine(path: string, line: number, text: string): SecretMatch[] {
+  if (text.includes(ALLOW_MARKER)) {
+    return [];
+  }
+  const matches: SecretMatch[] = [];
+  for (const rule of SECRET_RULES) {
+    const match = text.match(rule.pattern);
+    if (!match) {
+      continue;
+    }
+    const value = match[1] ?? match[0];
+    if (rule.minEntropy !== undefined && shannonEntropy(value) < rule.minEntropy) {
+      continue;
+    }
+    if (rule.id === 'high-entropy-string' && (LOCK_FILES.test(path) || INTEGRITY_HASH.test(value) || !/\d/.test(value) || !/[A-Za-z]/.test(value))) {
+      continue;
+    }
+    // A value already reported by a more specific rule isn't reported again
+    if (!matches.some(existing => existing.value.includes(value) || value.includes(existing.value))) {
+      matches.push({ rule, path, line, value });
+    }
+  }
+  return matches;
+}
+
+// Scans the lines a unified diff (any context size) adds, one diff line at a time, so
+// patches of any size can be streamed through it
+export class PatchScanner {
+  readonly matches: SecretMatch[] = [];
+  private path: string | null = null;
+  private inHunk = false;
+  // New line number of the next hunk line
+  private line = 0;
+
+  push(text: string): void {
+    if (text.startsWith('diff --git ')) {
+      this.path = diffGitPath(text);
+      this.inHunk = false;
+    } else if (this.path && text.startsWith('@@')) {
+      this.line = Number.parseInt(text.match(/\+(\d+)/)?.[1] ?? '1');
+      this.inHunk = true;
+    } else if (this.path && this.inHunk) {
+      if (text.startsWith('+')) {
+        this.matches.push(...scanLine(this.path, this.line, text.slice(1)));
+      }
+      if (!text.startsWith('-') && !text.startsWith('\\')) {
+        this.line++;
+      }
+    }
+  }
+}
+
+export function scanPatch(patch: string): SecretMatch[] {
+  const scanner = new PatchScanner();
+  for (const line of patch.split('\n')) {
+    scanner.push(line);
+  }
+  return scanner.matches;
+}
+
+// Replaces every secret in the content with a [REDACTED:<rule>] placeholder; guesses are left as they are
+export function redactSecrets(path: string, content: string): string {
+  let redacted = content;
+  for (const rule of SECRET_RULES) {
+    if (rule.block) {
+      redacted = redacted.replace(rule.block, `[REDACTED:${rule.id}]`);
+    }
+  }
+  return redacted
+    .split('\n')
+    .map((text, index) => {
+      let result = text;
+      for (const match of scanLine(path, index + 1, text).filter((match) => !match.rule.heuristic)) {
+        result = result.split(match.value).join(`[REDACTED:${match.rule.id}]`);
+      }
+      return result;
+    })
+    .join('\n');
+}
+
+// Enough of the value to recognise it without repeating the secret
+export function maskSecret(value: string): string {
+  return value.length > 12 ? `${value.slice(0, 4)}…${value.slice(-2)}` : '…';
+}
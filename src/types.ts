@@ -0,0 +1,603 @@
+// Result types returned by the AIRewind programmatic API.
+// Rendering for the terminal lives in render.ts; nothing here prints.
+
+import type { DiffHunk, FileDiff } from './hunks.js';
+
+// Who made a checkpoint, stored as AI-Agent / AI-Session / AI-Prompt-Ref commit trailers
+export interface CheckpointMetadata {
+  agent?: string;
+  session?: string;
+  // Prompt id, transcript path or URL the change came from
+  promptRef?: string;
+}
+
+// The project's own git repository at the time of a checkpoint, stored as Main-Head /
+// Main-Branch / Main-Dirty commit trailers
+export interface MainRepoState {
+  head: string;
+  // Null when HEAD was detached
+  branch: string | null;
+  // Uncommitted changes in the main repository
+  dirty: boolean;
+}
+
+export interface CommitEntry {
+  hash: string;
+  shortHash: string;
+  // ISO 8601 author date
+  date: string;
+  subject: string;
+  // Branch and tag names pointing at this commit
+  refs: string[];
+  metadata: CheckpointMetadata;
+  // Null for checkpoints taken without a main repository (or before this was recorded)
+  main: MainRepoState | null;
+}
+
+// Restricts log and stats to checkpoints from one agent and/or session
+export interface CommitFilter {
+  agent?: string;
+  session?: string;
+  // Only checkpoints taken while the main repository was on this branch
+  mainBranch?: string;
+}
+
+export type ChangeKind =
+  | 'added'
+  | 'modified'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'typechange'
+  | 'untracked'
+  | 'unmerged';
+
+export interface StatusEntry {
+  path: string;
+  kind: ChangeKind;
+  // Raw two-letter porcelain code, e.g. " M" or "??"
+  code: string;
+  // Set for renames and copies
+  originalPath?: string;
+}
+
+export interface FileChange {
+  path: string;
+  kind: ChangeKind;
+  originalPath?: string;
+}
+
+export interface InitResult {
+  workTree: string;
+  gitDir: string;
+  mainRepoDetected: boolean;
+  head: CommitEntry;
+  // Possible secrets in the initial snapshot (redacted, or kept with secretPolicy 'warn')
+  secrets: SecretFinding[];
+}
+
+// What happens to binary files and files over maxFileSize: 'skip' leaves them out entirely,
+// 'store' keeps their content outside git history so rollbacks can restore it, 'metadata'
+// records only size and hash
+export type BinaryPolicy = 'skip' | 'store' | 'metadata';
+
+export interface LargeFileEntry {
+  path: string;
+  size: number;
+  binary: boolean;
+  policy: BinaryPolicy;
+  // sha256 of the content; null for skipped files
+  hash: string | null;
+}
+
+// What a checkpoint does when the content it adds looks like a credential
+export type SecretPolicy = 'block' | 'redact' | 'warn' | 'off';
+
+export interface SecretFinding {
+  // Rule id, e.g. 'aws-access-key'
+  rule: string;
+  description: string;
+  path: string;
+  line: number;
+  // Start and end of the value; the secret itself is never repeated
+  preview: string;
+  // Replaced by a [REDACTED:<rule>] placeholder before the checkpoint was written
+  redacted: boolean;
+  // Checkpoint that added it (history scans only)
+  commit?: string;
+}
+
+export interface SecretScanResult {
+  // The single checkpoint scanned, or null for all of history
+  revision: string | null;
+  scannedCommits: number;
+  findings: SecretFinding[];
+}
+
+export interface CommitResult {
+  committed: boolean;
+  commit?: CommitEntry;
+  filesChanged: number;
+  recentCommits: CommitEntry[];
+  compaction: CompactionResult | null;
+  // Binary files and files over maxFileSize that are new or changed since the previous checkpoint
+  largeFiles: LargeFileEntry[];
+  // Possible secrets the checkpoint added (redacted, or kept with secretPolicy 'warn')
+  secrets: SecretFinding[];
+}
+
+export interface StatusResult {
+  workTree: string;
+  gitDir: string;
+  branch: string | null;
+  changes: StatusEntry[];
+  recentCommits: CommitEntry[];
+  // Files changed by the latest checkpoint (empty when only the initial commit exists)
+  lastCommitFiles: FileChange[];
+  // Binary files and files currently over maxFileSize, and how binaryPolicy handles them
+  largeFiles: LargeFileEntry[];
+  // Main repository right now, null when there is none
+  mainRepo: MainRepoState | null;
+}
+
+export interface StatsResult {
+  totalCommits: number;
+  filesTracked: number;
+  repositorySizeBytes: number;
+  firstCommitDate: string;
+  lastCommitDate: string;
+  filesChangedInLastCommit: number;
+  topFiles: { path: string; changes: number }[];
+  // Checkpoints per agent; commits without an AI-Agent trailer are not counted
+  agents: { agent: string; commits: number }[];
+  filter: CommitFilter;
+  config: {
+    configFilePresent: boolean;
+    autoCommitThreshold: number;
+    maxCommits: number;
+  };
+  compaction: {
+    compactions: number;
+    foldedCommits: number;
+    reclaimedBytes: number;
+  };
+  largeFiles: {
+    maxFileSize: number;
+    policy: BinaryPolicy;
+    // Large files recorded in the latest checkpoint
+    files: LargeFileEntry[];
+    // Content kept outside git history by the 'store' policy
+    storedObjects: number;
+    storedBytes: number;
+    // Stored content no branch, tag or backup refers to anymore; compact and backups prune remove it
+    unreferencedObjects: number;
+    unreferencedBytes: number;
+  };
+}
+
+// How diff output is produced: a full patch, git's --stat summary, changed paths only, or a
+// patch with changes marked word by word ([-removed-]{+added+})
+export type DiffFormat = 'patch' | 'stat' | 'name-only' | 'word-diff';
+
+export interface DiffOptions {
+  // Second point to compare the first one with; without it a single checkpoint shows its own changes
+  to?: string;
+  // Limit the diff to these paths or globs (relative to the project root)
+  paths?: string[];
+  format?: DiffFormat;
+  sinceMainCommit?: boolean;
+}
+
+export interface DiffResult {
+  // Commit shown, or undefined for uncommitted working tree changes
+  commit?: string;
+  // Both points, as given, when two were compared
+  from?: string;
+  to?: string;
+  format: DiffFormat;
+  // Git's output in the chosen format
+  patch: string;
+  // With sinceMainCommit: the main repository commit the patch starts from, and the
+  // checkpoints taken on it, newest first
+  sinceMainCommit?: { head: string; checkpoints: CommitEntry[] };
+}
+
+export interface BackupEntry {
+  tag: string;
+  commit: CommitEntry | null;
+  // When the backup was taken (from the tag name), null for tags not named by ai-rewind
+  createdAt: string | null;
+  // Listed in pinnedBackups, so retention never removes it
+  pinned: boolean;
+}
+
+export interface BackupDetails extends BackupEntry {
+  // Changes between HEAD and the backup
+  files: FileChange[];
+  stat: string;
+  patch: string;
+}
+
+export interface BackupRemoval {
+  tag: string;
+  // count: beyond backupRetentionCount, age: older than backupMaxAgeDays
+  reason: 'count' | 'age';
+}
+
+export interface BackupPruneResult {
+  dryRun: boolean;
+  removed: BackupRemoval[];
+  kept: number;
+  retention: { count: number; maxAgeDays: number; pinned: string[] };
+  // Large file store content that no remaining ref needs (removed unless dryRun)
+  largeFiles: { objects: number; bytes: number };
+}
+
+// A named milestone: an annotated tag under checkpoint/ that backup cleanup never prunes
+export interface NamedCheckpoint {
+  name: string;
+  // Full tag name, e.g. checkpoint/before-db-migration
+  tag: string;
+  message: string;
+  // ISO 8601 time the tag was created
+  createdAt: string;
+  commit: CommitEntry;
+  // Changes between HEAD and the checkpoint
+  diffstat: DiffStat;
+}
+
+export interface DiffStat {
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+}
+
+export interface CheckpointOptions {
+  message?: string;
+  metadata?: CheckpointMetadata;
+}
+
+export interface CheckpointResult {
+  checkpoint: NamedCheckpoint;
+  // Checkpoint of uncommitted work made so the tag covers it, if there was any
+  savedChanges: CommitEntry | null;
+}
+
+export interface CheckpointRestoreResult {
+  name: string;
+  backupTag: string;
+  removedBackups: string[];
+  head: CommitEntry;
+}
+
+// A parallel attempt kept as an experiment/<name> branch in the shadow repo
+export interface ExperimentEntry {
+  name: string;
+  branch: string;
+  head: CommitEntry;
+  current: boolean;
+  // Checkpoints the experiment has that the main line doesn't, and vice versa
+  ahead: number;
+  behind: number;
+}
+
+export interface ExperimentList {
+  // Branch experiments are compared against and adopted into (defaultBranch)
+  mainBranch: string;
+  // Checked-out branch, null when HEAD is detached
+  current: string | null;
+  experiments: ExperimentEntry[];
+}
+
+export interface ExperimentSwitchResult {
+  branch: string;
+  previous: string | null;
+  created: boolean;
+  // Checkpoint of uncommitted work left on the previous branch, if there was any
+  savedChanges: CommitEntry | null;
+  head: CommitEntry;
+}
+
+export interface ExperimentComparison {
+  a: string;
+  b: string;
+  aHead: CommitEntry;
+  bHead: CommitEntry;
+  // Last checkpoint both have in common
+  base: CommitEntry | null;
+  files: FileChange[];
+  stat: string;
+  patch: string;
+}
+
+export interface ExperimentAdoptResult {
+  name: string;
+  mainBranch: string;
+  // Points at the main line as it was before adopting; pinned, so retention keeps it
+  backupTag: string;
+  removedBackups: string[];
+  savedChanges: CommitEntry | null;
+  head: CommitEntry;
+}
+
+// 'config' is excludePatterns from the AI Rewind config, 'ignore-file' is .ai-rewindignore
+// and 'gitignore' any of the project's own .gitignore files
+export type IgnoreSource = 'config' | 'ignore-file' | 'gitignore';
+
+export interface IgnoreRule {
+  source: IgnoreSource;
+  file: string;
+  line: number;
+  pattern: string;
+  // '!pattern': re-includes paths matched by earlier rules
+  negated: boolean;
+}
+
+export interface IgnoreList {
+  ignoreFile: string;
+  exists: boolean;
+  // In the order git applies them; later rules win
+  rules: IgnoreRule[];
+}
+
+export interface IgnoreCheck {
+  path: string;
+  ignored: boolean;
+  // In the latest checkpoint, i.e. still checkpointed even if ignored now
+  tracked: boolean;
+  // The rule that decided, or null when no rule matches
+  rule: IgnoreRule | null;
+}
+
+export interface IgnoreUntrackResult {
+  dryRun: boolean;
+  // Tracked files that ignore rules now exclude; they stay on disk
+  files: string[];
+  commit: CommitEntry | null;
+}
+
+export interface IgnoreAddResult {
+  ignoreFile: string;
+  added: string[];
+  // Patterns that were already in the file
+  existing: string[];
+  untracked: IgnoreUntrackResult | null;
+}
+
+export interface BundleExportResult {
+  path: string;
+  // As given, or null for the whole history
+  range: string | null;
+  commits: number;
+  // Branches and tags recorded in the bundle
+  refs: string[];
+  // Stored content of the large files the exported checkpoints list
+  largeFiles: { objects: number; bytes: number };
+  // Exported backups pinned with `backups pin`
+  pinnedBackups: string[];
+  size: number;
+}
+
+export interface BundleImportResult {
+  path: string;
+  // The project had no tracking repository, so the bundle became its history
+  restored: boolean;
+  // Bundle branch and the local branch it was imported as
+  branches: { from: string; to: string }[];
+  tags: string[];
+  // Tags that already exist here pointing elsewhere; the local ones are kept
+  skippedTags: string[];
+  // Checkpoints that weren't in the repository before
+  commits: number;
+  // Large file contents added to the store
+  largeFiles: number;
+  // Imported tags that were pinned where the bundle came from
+  pinnedBackups: string[];
+  // Current checkpoint after a restore
+  head: CommitEntry | null;
+}
+
+// Where to roll back to; exactly one field should be set
+export interface RollbackTarget {
+  count?: number;
+  // Commit hash, tag or other revision on the current history
+  to?: string;
+  // Most recent checkpoint whose subject contains this text (case-insensitive)
+  toMessage?: string;
+  // Most recent checkpoint made at or before this time
+  at?: string | Date;
+  // Duration such as "30m", "2h" or "1d12h"; same as `at` that long ago
+  ago?: string;
+}
+
+export interface RollbackPlan {
+  count: number;
+  // How a non-count target was given, e.g. 'message "SAFETY: Before refactoring"'
+  selector?: string;
+  head: CommitEntry;
+  target: CommitEntry;
+  // Checkpoints that will be undone, newest first
+  commits: CommitEntry[];
+  files: FileChange[];
+  uncommittedChanges: StatusEntry[];
+  // null when there is no main repository or its status could not be read
+  mainRepoDirty: boolean | null;
+}
+
+export interface RollbackOptions {
+  force?: boolean;
+  dryRun?: boolean;
+  // Keep uncommitted (human) edits by merging them onto the target instead of discarding them
+  merge?: boolean;
+  // Called with the plan before anything is changed; returning false cancels
+  confirm?: (plan: RollbackPlan) => boolean | Promise<boolean>;
+}
+
+export interface RollbackResult {
+  plan: RollbackPlan;
+  applied: boolean;
+  cancelled: boolean;
+  backupTag?: string;
+  removedBackups: string[];
+  head?: CommitEntry;
+  // Set for merge rollbacks: files whose uncommitted edits were carried over
+  merged?: string[];
+  // Merged files where the edits overlapped undone checkpoints; left with conflict markers
+  conflicts?: string[];
+}
+
+// Something the working tree can be moved back (or forward) to, as listed by `pick`
+export type RestorePoint =
+  // `count` is how many checkpoints rollback() has to undo to reach it (0 = current HEAD)
+  | { kind: 'checkpoint'; commit: CommitEntry; count: number }
+  | { kind: 'backup'; tag: string; commit: CommitEntry };
+
+export interface RestorePreview {
+  revision: string;
+  // Changes going from HEAD to the restore point
+  files: FileChange[];
+  stat: string;
+}
+
+// What to do when a later checkpoint touched the same lines as the one being reverted:
+// give up, keep the current (later) version, or keep the reverted (older) version
+export type ConflictResolution = 'abort' | 'ours' | 'theirs';
+
+export interface RevertOptions {
+  // Only report the files that would change and where later changes conflict
+  dryRun?: boolean;
+  onConflict?: ConflictResolution;
+  // Asked with the conflicting paths when onConflict is not set; defaults to abort
+  resolveConflict?: (conflicts: string[]) => ConflictResolution | Promise<ConflictResolution>;
+  metadata?: CheckpointMetadata;
+}
+
+export interface PromoteOptions {
+  // One commit for the whole range instead of one per checkpoint
+  squash?: boolean;
+  // Message for a squashed (or single) commit; defaults to the checkpoint subjects
+  message?: string;
+  // "Name <email>" identities added as Co-authored-by trailers
+  coAuthors?: string[];
+  // Write format-patch style files here instead of committing
+  patchDir?: string;
+}
+
+export interface PromoteResult {
+  range: string;
+  // Shadow checkpoints that were promoted, oldest first
+  checkpoints: CommitEntry[];
+  // Checkpoints in the range without file changes (e.g. only large files changed)
+  skipped: CommitEntry[];
+  squashed: boolean;
+  // Main repository branch the commits went to, null when HEAD is detached or writing patches
+  branch: string | null;
+  // Commits created in the main repository
+  commits: { hash: string; subject: string }[];
+  patches: string[];
+}
+
+export interface RevertResult {
+  target: CommitEntry;
+  dryRun: boolean;
+  applied: boolean;
+  conflicts: string[];
+  resolution: ConflictResolution | null;
+  // Checkpoint of uncommitted work saved before reverting, if there was any
+  savedChanges: CommitEntry | null;
+  commit?: CommitEntry;
+  files: FileChange[];
+}
+
+export interface ForwardResult {
+  target: string;
+  // Tag of the state before the restore
+  backupTag: string;
+  removedBackups: string[];
+  head: CommitEntry;
+}
+
+// restore: changed since the target, recreate: deleted since, delete: created since
+export type FileRestoreAction = 'restore' | 'recreate' | 'delete';
+
+export interface FileRestoreEntry {
+  path: string;
+  action: FileRestoreAction;
+}
+
+export interface FileRollbackOptions {
+  // Checkpoint to restore from (default: HEAD~1)
+  commit?: string;
+  dryRun?: boolean;
+}
+
+export interface FileRollbackResult {
+  // Paths, directories and globs as given
+  patterns: string[];
+  commit: string;
+  target: CommitEntry;
+  dryRun: boolean;
+  // Checkpoint of uncommitted work saved before restoring, if there was any
+  savedChanges: CommitEntry | null;
+  // Every matched file that differs from the target; empty when already identical
+  files: FileRestoreEntry[];
+}
+
+export interface HunkOptions {
+  // Checkpoint to compare the working tree with (default: HEAD~1)
+  commit?: string;
+  // Limit to these paths, directories or globs
+  paths?: string[];
+}
+
+export interface HunkList {
+  commit: string;
+  target: CommitEntry;
+  files: FileDiff[];
+}
+
+export interface HunkRollbackResult {
+  commit: string;
+  target: CommitEntry;
+  reverted: DiffHunk[];
+  // Hunks left as they are
+  kept: number;
+  // Checkpoint of uncommitted work saved before reverting, if there was any
+  savedChanges: CommitEntry | null;
+  checkpoint?: CommitEntry;
+}
+
+export interface InstallResult {
+  claudeMdPath: string;
+  installPath: string;
+  alreadyConfigured: boolean;
+  created: boolean;
+}
+
+export interface HookResult {
+  event: string;
+  tool: string | null;
+  // Why the payload was ignored, or null when a checkpoint was attempted
+  skipped: 'unsupported-tool' | 'not-initialized' | null;
+  message?: string;
+  files: string[];
+  commit: CommitResult | null;
+}
+
+export interface HookInstallResult {
+  settingsPath: string;
+  command: string;
+  events: string[];
+  alreadyConfigured: boolean;
+  created: boolean;
+}
+
+export interface CompactionResult {
+  foldedCommits: number;
+  rewrittenCommits: number;
+  baseCommit: string;
+  remappedRefs: string[];
+  reclaimedBytes: number;
+  // Large file store content the compacted history no longer refers to, now removed
+  largeFiles: { objects: number; bytes: number };
+}